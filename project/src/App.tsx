@@ -3,6 +3,7 @@ import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-d
 import { AuthProvider } from './context/AuthContext';
 import ProtectedRoute from './components/ProtectedRoute';
 import Login from './pages/Login';
+import Register from './pages/Register';
 import AdminDashboard from './pages/AdminDashboard';
 import CreateSurvey from './pages/CreateSurvey';
 import SurveyList from './pages/SurveyList';
@@ -11,16 +12,17 @@ import Navigation from './components/Navigation';
 
 function App() {
   return (
-    <AuthProvider>
-      <Router>
+    <Router>
+      <AuthProvider>
         <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
           <Navigation />
           <Routes>
             <Route path="/login" element={<Login />} />
+            <Route path="/register" element={<Register />} />
             <Route
               path="/admin"
               element={
-                <ProtectedRoute requireAdmin>
+                <ProtectedRoute requirePermission="analytics:view" allowSurveyGrants>
                   <AdminDashboard />
                 </ProtectedRoute>
               }
@@ -28,7 +30,15 @@ function App() {
             <Route
               path="/create-survey"
               element={
-                <ProtectedRoute requireAdmin>
+                <ProtectedRoute requirePermission="surveys:create">
+                  <CreateSurvey />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/surveys/:id/edit"
+              element={
+                <ProtectedRoute>
                   <CreateSurvey />
                 </ProtectedRoute>
               }
@@ -38,8 +48,8 @@ function App() {
             <Route path="/" element={<Navigate to="/surveys" replace />} />
           </Routes>
         </div>
-      </Router>
-    </AuthProvider>
+      </AuthProvider>
+    </Router>
   );
 }
 
@@ -0,0 +1,152 @@
+import React, { useRef, useState } from 'react';
+import { AlertCircle, FileText, UploadCloud, X } from 'lucide-react';
+import { describeFileTypes, formatFileSize, getFileRejection } from '../services/survey-files';
+import type { FileUploadSettings } from '../types/survey';
+
+interface FileUploadInputProps {
+  settings: FileUploadSettings;
+  // Names of the files in the answer, including ones stored with an earlier submission
+  value: string[];
+  // Files picked on this page that still have to be sent
+  files: File[];
+  onChange: (value: string[], files: File[]) => void;
+  // Upload progress of the submission in percent, or null while nothing is being sent
+  progress: number | null;
+}
+
+// Drop zone for a file upload question. Files are checked against the question's type, size and
+// count limits as they are added, and only sent when the response is submitted.
+const FileUploadInput: React.FC<FileUploadInputProps> = ({ settings, value, files, onChange, progress }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const addFiles = (picked: File[]) => {
+    const names = [...value];
+    const added: File[] = [];
+    const rejections: string[] = [];
+
+    picked.forEach((file) => {
+      const rejection = getFileRejection(file, settings, names);
+      if (rejection) {
+        rejections.push(rejection);
+      } else {
+        names.push(file.name);
+        added.push(file);
+      }
+    });
+
+    setErrors(rejections);
+    if (added.length > 0) onChange(names, [...files, ...added]);
+  };
+
+  const removeFile = (name: string) => {
+    setErrors([]);
+    onChange(
+      value.filter((n) => n !== name),
+      files.filter((file) => file.name !== name),
+    );
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (progress === null) addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const isFull = value.length >= settings.maxFiles;
+
+  return (
+    <div className="space-y-3">
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={() => !isFull && inputRef.current?.click()}
+        onKeyDown={(e) => {
+          if ((e.key === 'Enter' || e.key === ' ') && !isFull) {
+            e.preventDefault();
+            inputRef.current?.click();
+          }
+        }}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        aria-disabled={isFull}
+        className={`flex flex-col items-center justify-center p-8 rounded-2xl border-2 border-dashed text-center transition-all ${
+          isDragging
+            ? 'border-blue-500 bg-blue-50'
+            : isFull
+              ? 'border-gray-200 bg-gray-50 cursor-not-allowed'
+              : 'border-gray-300 hover:border-blue-300 hover:bg-gray-50 cursor-pointer'
+        }`}
+      >
+        <UploadCloud className={`h-10 w-10 mb-3 ${isDragging ? 'text-blue-500' : 'text-gray-400'}`} />
+        <p className="font-medium text-gray-700">
+          {isFull ? 'Remove a file to add another' : 'Drag and drop files here, or click to browse'}
+        </p>
+        <p className="text-sm text-gray-500 mt-1">
+          {describeFileTypes(settings.allowedTypes)} · up to {settings.maxSizeMb} MB each
+          {settings.maxFiles > 1 ? ` · ${settings.maxFiles} files at most` : ''}
+        </p>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple={settings.maxFiles > 1}
+          accept={settings.allowedTypes.join(',') || undefined}
+          onChange={(e) => {
+            addFiles(Array.from(e.target.files || []));
+            e.target.value = '';
+          }}
+          className="sr-only"
+          tabIndex={-1}
+        />
+      </div>
+
+      {errors.map((error) => (
+        <div key={error} className="flex items-center text-sm text-red-600">
+          <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+          {error}
+        </div>
+      ))}
+
+      {value.length > 0 && (
+        <ul className="space-y-2">
+          {value.map((name) => {
+            const file = files.find((f) => f.name === name);
+
+            return (
+              <li key={name} className="p-3 rounded-xl border border-gray-200 bg-white">
+                <div className="flex items-center">
+                  <FileText className="h-5 w-5 text-blue-500 mr-3 flex-shrink-0" />
+                  <span className="flex-1 min-w-0 truncate text-gray-700">{name}</span>
+                  <span className="ml-3 text-sm text-gray-500 whitespace-nowrap">
+                    {file ? formatFileSize(file.size) : 'Uploaded'}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => removeFile(name)}
+                    disabled={progress !== null}
+                    aria-label={`Remove ${name}`}
+                    className="ml-2 p-1 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+                {file && progress !== null && (
+                  <div className="mt-2 h-1.5 rounded-full bg-gray-100 overflow-hidden">
+                    <div className="h-full bg-blue-500 transition-all" style={{ width: `${progress}%` }} />
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default FileUploadInput;
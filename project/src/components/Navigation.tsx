@@ -1,46 +1,38 @@
 import React, { useState } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { BarChart4, ClipboardList, PlusCircle, LogOut, UserCircle, CheckCircle2, LineChart, Menu, X } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useAnySurveyPermission } from '../hooks/useAnySurveyPermission';
+import type { Permission } from '../types/user';
 
 const Navigation = () => {
   const location = useLocation();
   const navigate = useNavigate();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const { user, isAdmin, hasPermission, logout } = useAuth();
+  // Analytics are also open to teammates a survey has been shared with
+  const canViewAnalytics = useAnySurveyPermission('analytics:view');
   
-  // Get user from localStorage instead of using context
-  const getUserFromLocalStorage = () => {
-    const userStr = localStorage.getItem('user');
-    if (userStr) {
-      try {
-        return JSON.parse(userStr);
-      } catch (e) {
-        return null;
-      }
-    }
-    return null;
-  };
-  
-  const user = getUserFromLocalStorage();
-  
-  // Check if user has admin role
-  const isAdmin = user && user.roles && (user.roles.includes('admin') || user.email.includes('admin'));
-  
-  // Define navigation items based on user and admin status
-  const navigation = [
-    { name: 'Analytics Dashboard', href: '/admin', icon: BarChart4, requiresAdmin: true },
-    { name: 'Surveys', href: '/surveys', icon: ClipboardList, requiresAdmin: false },
-    { name: 'Create Survey', href: '/create-survey', icon: PlusCircle, requiresAdmin: true },
+  // Define navigation items and the permission each one needs
+  const navigation: {
+    name: string;
+    href: string;
+    icon: typeof ClipboardList;
+    permission?: Permission;
+    visible?: boolean;
+  }[] = [
+    { name: 'Analytics Dashboard', href: '/admin', icon: BarChart4, visible: Boolean(canViewAnalytics) },
+    { name: 'Surveys', href: '/surveys', icon: ClipboardList },
+    { name: 'Create Survey', href: '/create-survey', icon: PlusCircle, permission: 'surveys:create' },
   ];
 
-  // Filter navigation items based on user and admin status
-  const filteredNavigation = user 
-    ? (isAdmin ? navigation : navigation.filter(item => !item.requiresAdmin))
-    : navigation.filter(item => !item.requiresAdmin);
+  // Only show the items the user is allowed to open
+  const filteredNavigation = navigation.filter(
+    item => item.visible !== false && (!item.permission || hasPermission(item.permission))
+  );
 
   const handleLogout = () => {
-    // Clear user data from localStorage
-    localStorage.removeItem('auth_token');
-    localStorage.removeItem('user');
+    logout();
     navigate('/login');
   };
 
@@ -106,7 +98,7 @@ const Navigation = () => {
                 to="/login"
                 className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-full text-indigo-600 bg-white hover:bg-indigo-50 transition-all duration-300 hover:scale-105 hover:shadow-lg hover:shadow-white/20"
               >
-                Admin Login
+                Sign In
               </Link>
             )}
           </div>
@@ -151,7 +143,7 @@ const Navigation = () => {
                 className="block px-3 py-2 rounded-md text-base font-medium text-white bg-indigo-600 hover:bg-indigo-700 flex items-center space-x-2"
               >
                 <UserCircle className="h-5 w-5" />
-                <span>Admin Login</span>
+                <span>Sign In</span>
               </Link>
             )}
             {user && (
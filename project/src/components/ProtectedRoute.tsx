@@ -4,22 +4,35 @@ import type React from "react"
 import { useEffect } from "react"
 import { Navigate, useLocation } from "react-router-dom"
 import { useAuth } from "../context/AuthContext"
+import { useAnySurveyPermission } from "../hooks/useAnySurveyPermission"
+import type { Permission } from "../types/user"
 
 interface ProtectedRouteProps {
   children: React.ReactNode
   requireAdmin?: boolean
+  requirePermission?: Permission
+  // Also lets in users holding `requirePermission` on at least one survey shared with them
+  allowSurveyGrants?: boolean
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, requireAdmin = false }) => {
-  const { user, isAdmin, isLoading, checkAuthState } = useAuth()
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
+  children,
+  requireAdmin = false,
+  requirePermission,
+  allowSurveyGrants = false,
+}) => {
+  const { user, isAdmin, hasPermission, isLoading, checkAuthState } = useAuth()
   const location = useLocation()
+  const hasAnySurveyPermission = useAnySurveyPermission(allowSurveyGrants ? (requirePermission ?? null) : null)
+  const hasRequiredPermission =
+    !requirePermission || (allowSurveyGrants ? hasAnySurveyPermission : hasPermission(requirePermission))
 
   // Only check auth state when the route changes, not when checkAuthState changes
   useEffect(() => {
     checkAuthState()
   }, [location.pathname]) // Remove checkAuthState from dependencies
 
-  if (isLoading) {
+  if (isLoading || (user && hasRequiredPermission === null)) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-600"></div>
@@ -31,7 +44,7 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, requireAdmin
     return <Navigate to="/login" state={{ from: location }} replace />
   }
 
-  if (requireAdmin && !isAdmin) {
+  if ((requireAdmin && !isAdmin) || !hasRequiredPermission) {
     return <Navigate to="/surveys" state={{ from: location }} replace />
   }
 
@@ -0,0 +1,155 @@
+import React from 'react';
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from '@dnd-kit/core';
+import {
+  SortableContext,
+  arrayMove,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable';
+import { restrictToVerticalAxis } from '@dnd-kit/modifiers';
+import { CSS } from '@dnd-kit/utilities';
+import { ChevronDown, ChevronUp, GripVertical } from 'lucide-react';
+
+interface RankingInputProps {
+  options: string[];
+  // The ranking so far, first to last. Empty until the respondent orders the options.
+  value: string[];
+  onChange: (ranking: string[]) => void;
+  // Label shown for an option, e.g. with piped answers filled in
+  formatOption?: (option: string) => string;
+}
+
+interface RankingItemProps {
+  option: string;
+  label: string;
+  position: number;
+  total: number;
+  isRanked: boolean;
+  onMove: (offset: number) => void;
+}
+
+const RankingItem: React.FC<RankingItemProps> = ({ option, label, position, total, isRanked, onMove }) => {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: option });
+
+  return (
+    <li
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition }}
+      className={`flex items-center p-4 rounded-2xl border-2 bg-white transition-shadow ${
+        isDragging ? 'border-blue-500 shadow-lg z-10 relative' : isRanked ? 'border-blue-200' : 'border-gray-200'
+      }`}
+    >
+      <span
+        className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-semibold mr-3 flex-shrink-0 ${
+          isRanked ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-500'
+        }`}
+      >
+        {position + 1}
+      </span>
+      <button
+        type="button"
+        {...attributes}
+        {...listeners}
+        aria-label={`Drag to reorder ${label}`}
+        className="p-1 mr-2 text-gray-400 hover:text-gray-600 cursor-grab active:cursor-grabbing touch-none"
+      >
+        <GripVertical className="h-5 w-5" />
+      </button>
+      <span className="flex-1 text-gray-700">{label}</span>
+      <div className="flex flex-col ml-2">
+        <button
+          type="button"
+          onClick={() => onMove(-1)}
+          disabled={position === 0}
+          aria-label={`Move ${label} up`}
+          className="p-0.5 text-gray-400 hover:text-blue-600 disabled:opacity-30 disabled:hover:text-gray-400"
+        >
+          <ChevronUp className="h-4 w-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => onMove(1)}
+          disabled={position === total - 1}
+          aria-label={`Move ${label} down`}
+          className="p-0.5 text-gray-400 hover:text-blue-600 disabled:opacity-30 disabled:hover:text-gray-400"
+        >
+          <ChevronDown className="h-4 w-4" />
+        </button>
+      </div>
+    </li>
+  );
+};
+
+// Lets the respondent put the options of a ranking question in order by dragging them, or with the
+// arrow buttons and keyboard. Until they do, the options are shown in the author's order and the
+// question counts as unanswered; "Keep this order" accepts that order as their ranking.
+const RankingInput: React.FC<RankingInputProps> = ({ options, value, onChange, formatOption = (option) => option }) => {
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 4 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates }),
+  );
+
+  // A stored ranking that no longer matches the options (they were edited since) starts over
+  const isRanked = value.length === options.length && options.every((option) => value.includes(option));
+  const order = isRanked ? value : options;
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= order.length || from === to) return;
+    onChange(arrayMove(order, from, to));
+  };
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over) return;
+    move(order.indexOf(String(active.id)), order.indexOf(String(over.id)));
+  };
+
+  return (
+    <div className="space-y-3">
+      <DndContext
+        sensors={sensors}
+        collisionDetection={closestCenter}
+        modifiers={[restrictToVerticalAxis]}
+        onDragEnd={handleDragEnd}
+      >
+        <SortableContext items={order} strategy={verticalListSortingStrategy}>
+          <ol className="space-y-3">
+            {order.map((option, position) => (
+              <RankingItem
+                key={option}
+                option={option}
+                label={formatOption(option)}
+                position={position}
+                total={order.length}
+                isRanked={isRanked}
+                onMove={(offset) => move(position, position + offset)}
+              />
+            ))}
+          </ol>
+        </SortableContext>
+      </DndContext>
+      {!isRanked && (
+        <div className="flex items-center justify-between text-sm text-gray-500">
+          <span>Drag the options into your order of preference, most preferred first.</span>
+          <button
+            type="button"
+            onClick={() => onChange([...options])}
+            className="ml-4 font-medium text-blue-600 hover:text-blue-700 whitespace-nowrap"
+          >
+            Keep this order
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RankingInput;
@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, Loader2, Trash2, UserPlus, Users, XCircle } from 'lucide-react';
+import { ApiError, SurveyApi } from '../services/api-service';
+import { fromApiCollaborator } from '../services/survey-codec';
+import {
+  collaboratorRoleLabels,
+  collaboratorRoles,
+  type Collaborator,
+  type CollaboratorRole,
+  type SavedSurvey,
+} from '../types/survey';
+
+interface ShareSurveyDialogProps {
+  survey: SavedSurvey;
+  onClose: () => void;
+  onCollaboratorsChange: (collaborators: Collaborator[]) => void;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const roleDescriptions: Record<CollaboratorRole, string> = {
+  viewer: 'Can see charts and summaries',
+  editor: 'Can edit questions and settings',
+  analyst: 'Can see and export individual responses',
+};
+
+// Lists who a survey is shared with and lets its owner invite, re-role and remove collaborators.
+// Changes are saved immediately and reported back so the survey list stays in sync.
+const ShareSurveyDialog: React.FC<ShareSurveyDialogProps> = ({ survey, onClose, onCollaboratorsChange }) => {
+  const [collaborators, setCollaborators] = useState<Collaborator[]>(survey.collaborators);
+  const [isLoading, setIsLoading] = useState(true);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<CollaboratorRole>('viewer');
+  const [isInviting, setIsInviting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchCollaborators = async () => {
+      try {
+        const data = await SurveyApi.getCollaborators(survey.id);
+        setCollaborators(data.map(fromApiCollaborator));
+      } catch (err) {
+        console.error('Error loading collaborators:', err);
+        setError('Failed to load collaborators');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchCollaborators();
+  }, [survey.id]);
+
+  const updateCollaborators = (updated: Collaborator[]) => {
+    setCollaborators(updated);
+    onCollaboratorsChange(updated);
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const trimmedEmail = email.trim();
+    if (!EMAIL_PATTERN.test(trimmedEmail)) {
+      setError('Please enter a valid email address');
+      return;
+    }
+    if (collaborators.some((c) => c.email.toLowerCase() === trimmedEmail.toLowerCase())) {
+      setError('This survey is already shared with that email');
+      return;
+    }
+
+    setIsInviting(true);
+    try {
+      const added = await SurveyApi.addCollaborator(survey.id, trimmedEmail, role);
+      updateCollaborators([...collaborators, fromApiCollaborator(added)]);
+      setEmail('');
+    } catch (err) {
+      console.error('Error inviting collaborator:', err);
+      if (err instanceof ApiError && err.status === 409) {
+        setError('This survey is already shared with that email');
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to share survey');
+      }
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (collaborator: Collaborator, newRole: CollaboratorRole) => {
+    setError(null);
+    try {
+      await SurveyApi.updateCollaboratorRole(survey.id, collaborator.id, newRole);
+      updateCollaborators(collaborators.map((c) => (c.id === collaborator.id ? { ...c, role: newRole } : c)));
+    } catch (err) {
+      console.error('Error updating collaborator role:', err);
+      setError('Failed to change role. Please try again.');
+    }
+  };
+
+  const handleRemove = async (collaborator: Collaborator) => {
+    if (!confirm(`Remove ${collaborator.email}'s access to this survey?`)) return;
+
+    setError(null);
+    try {
+      await SurveyApi.removeCollaborator(survey.id, collaborator.id);
+      updateCollaborators(collaborators.filter((c) => c.id !== collaborator.id));
+    } catch (err) {
+      console.error('Error removing collaborator:', err);
+      setError('Failed to remove collaborator. Please try again.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 px-4">
+      <div className="bg-white rounded-lg max-w-lg w-full max-h-[80vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-4">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Share survey</h2>
+              <p className="text-sm text-gray-500">{survey.title}</p>
+            </div>
+            <button onClick={onClose} className="text-gray-500 hover:text-gray-700" aria-label="Close">
+              <XCircle className="h-6 w-6" />
+            </button>
+          </div>
+
+          {error && (
+            <div className="mb-4 flex items-center p-3 bg-red-50 border-l-4 border-red-400 rounded-r-md">
+              <AlertCircle className="h-5 w-5 text-red-400 mr-2 flex-shrink-0" />
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
+          <form onSubmit={handleInvite} className="space-y-3 mb-6">
+            <div className="flex flex-col sm:flex-row gap-2">
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="teammate@example.com"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+              />
+              <select
+                value={role}
+                onChange={(e) => setRole(e.target.value as CollaboratorRole)}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+              >
+                {collaboratorRoles.map((r) => (
+                  <option key={r} value={r}>
+                    {collaboratorRoleLabels[r]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-gray-500">{roleDescriptions[role]}</p>
+              <button
+                type="submit"
+                disabled={isInviting}
+                className={`inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 ${
+                  isInviting ? 'opacity-70 cursor-not-allowed' : ''
+                }`}
+              >
+                {isInviting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <UserPlus className="h-4 w-4 mr-2" />}
+                Invite
+              </button>
+            </div>
+          </form>
+
+          <h3 className="text-sm font-medium text-gray-700 mb-2 flex items-center">
+            <Users className="h-4 w-4 mr-2" />
+            People with access
+          </h3>
+
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 text-indigo-600 animate-spin" />
+            </div>
+          ) : collaborators.length === 0 ? (
+            <p className="text-sm text-gray-500 py-4">Only you can manage this survey so far.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {collaborators.map((collaborator) => (
+                <li key={collaborator.id} className="py-3 flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{collaborator.email}</p>
+                    {!collaborator.userId && <p className="text-xs text-gray-500">Invited, no account yet</p>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={collaborator.role}
+                      onChange={(e) => handleRoleChange(collaborator, e.target.value as CollaboratorRole)}
+                      className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                      aria-label={`Role for ${collaborator.email}`}
+                    >
+                      {collaboratorRoles.map((r) => (
+                        <option key={r} value={r}>
+                          {collaboratorRoleLabels[r]}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => handleRemove(collaborator)}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      aria-label={`Remove ${collaborator.email}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareSurveyDialog;
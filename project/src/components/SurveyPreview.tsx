@@ -1,4 +1,8 @@
 import React from 'react';
+import { GripVertical, UploadCloud } from 'lucide-react';
+import { getProxiedImageUrl } from '../services/api-service';
+import { describeFileTypes } from '../services/survey-files';
+import { NPS_POINTS } from '../services/survey-nps';
 import { Question } from '../types/survey';
 
 interface SurveyPreviewProps {
@@ -43,6 +47,51 @@ const SurveyPreview: React.FC<SurveyPreviewProps> = React.memo(({ title, descrip
           </div>
         );
 
+      case 'ranking':
+        return (
+          <ol className="space-y-2">
+            {question.options?.map((option, index) => (
+              <li
+                key={index}
+                className="flex items-center gap-2 rounded-md border border-gray-200 bg-white px-3 py-2 text-sm text-gray-700"
+              >
+                <span className="w-5 text-xs font-medium text-gray-500">{index + 1}</span>
+                <GripVertical className="h-4 w-4 text-gray-300" />
+                {option}
+              </li>
+            ))}
+          </ol>
+        );
+
+      case 'nps':
+        return (
+          <div className="space-y-2">
+            <div className="flex gap-1">
+              {NPS_POINTS.map((point) => (
+                <div
+                  key={point}
+                  className="flex-1 h-8 rounded border border-gray-300 flex items-center justify-center text-xs text-gray-600"
+                >
+                  {point}
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between text-xs text-gray-500">
+              <span>Not at all likely</span>
+              <span>Extremely likely</span>
+            </div>
+          </div>
+        );
+
+      case 'file_upload':
+        return (
+          <div className="flex flex-col items-center rounded-md border-2 border-dashed border-gray-300 p-4 text-center">
+            <UploadCloud className="h-6 w-6 text-gray-400 mb-1" />
+            <span className="text-sm text-gray-500">Drag and drop files here</span>
+            <span className="text-xs text-gray-400">{describeFileTypes(question.fileUpload?.allowedTypes ?? [])}</span>
+          </div>
+        );
+
       case 'likert_scale':
         return (
           <div className="space-y-4">
@@ -87,6 +136,41 @@ const SurveyPreview: React.FC<SurveyPreviewProps> = React.memo(({ title, descrip
           </div>
         );
 
+      case 'matrix':
+        return (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr>
+                  <th />
+                  {question.matrix?.columns.map((column, index) => (
+                    <th key={index} className="px-2 pb-2 text-xs font-medium text-gray-600 text-center">
+                      {column}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {question.matrix?.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex} className="border-t border-gray-100">
+                    <td className="py-2 pr-4 text-gray-700">{row}</td>
+                    {question.matrix?.columns.map((_, index) => (
+                      <td key={index} className="px-2 py-2 text-center">
+                        <input
+                          type={question.matrix?.multiplePerRow ? 'checkbox' : 'radio'}
+                          name={`question-${question.id}-${rowIndex}`}
+                          disabled
+                          className="h-4 w-4 border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+
       case 'open_ended':
         return (
           <div className="mt-2">
@@ -123,6 +207,13 @@ const SurveyPreview: React.FC<SurveyPreviewProps> = React.memo(({ title, descrip
             {question.description && (
               <p className="text-sm text-gray-600">{question.description}</p>
             )}
+            {question.imageUrl && (
+              <img
+                src={getProxiedImageUrl(question.imageUrl)}
+                alt={`Image for ${question.question}`}
+                className="max-h-48 rounded-md object-contain"
+              />
+            )}
             {renderQuestionPreview(question)}
           </div>
         ))}
@@ -1,62 +1,140 @@
 "use client"
 
 import type React from "react"
-import { createContext, useContext, useState, useEffect, useCallback } from "react"
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from "react"
+import { useLocation, useNavigate } from "react-router-dom"
+import { AuthApi, setAuthTokenProvider, setUnauthorizedHandler } from "../services/api-service"
+import { getTokenExpiry, getTokenRoles } from "../services/auth-token"
+import { setResponseQueueUser } from "../services/response-queue"
+import type { SavedSurvey } from "../types/survey"
+import {
+  collaboratorPermissions,
+  rolePermissions,
+  surveyOwnerPermissions,
+  type Permission,
+  type Role,
+  type UserProfile,
+} from "../types/user"
 
+// `roles` always comes from the access token's role claims, never from stored user data
 interface User {
   id: string
   username?: string
   email: string
   roles: string[]
+  profile?: UserProfile
 }
 
+type UserData = Omit<User, "roles">
+
+type SurveyAccess = Pick<SavedSurvey, "createdBy"> & Partial<Pick<SavedSurvey, "collaborators">>
+
 interface AuthContextType {
   user: User | null
   isLoading: boolean
-  login: (token: string, userData: User) => void
+  login: (token: string, userData: UserData, refreshToken?: string) => void
   logout: () => void
   isAdmin: boolean
+  permissions: Permission[]
+  hasPermission: (permission: Permission) => boolean
+  // Role permissions plus whatever owning `survey` or being one of its collaborators grants
+  hasSurveyPermission: (permission: Permission, survey: SurveyAccess) => boolean
+  // Whether the user owns `survey` or it has been shared with them
+  hasSurveyAccess: (survey: SurveyAccess) => boolean
   checkAuthState: () => void
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
+const TOKEN_STORAGE_KEY = "auth_token"
+const USER_STORAGE_KEY = "user"
+const REFRESH_TOKEN_STORAGE_KEY = "refresh_token"
+
+// Refresh this long before the access token expires so requests never go out with a stale token
+const REFRESH_MARGIN_MS = 60_000
+// setTimeout overflows above ~24.8 days; for longer-lived tokens the timer fires at this limit and
+// only schedules the next check
+const MAX_TIMER_DELAY_MS = 2_147_483_647
+
+// The API client attaches whatever token the auth context currently holds. Registered at module
+// load so that requests fired from child effects on first render are already authenticated.
+setAuthTokenProvider(() => localStorage.getItem(TOKEN_STORAGE_KEY))
+
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [user, setUser] = useState<User | null>(null)
+  const navigate = useNavigate()
+  const location = useLocation()
+  const [userData, setUserData] = useState<UserData | null>(null)
+  const [token, setToken] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(true)
-  const [isAdmin, setIsAdmin] = useState(false)
+  // Bumped when a clamped expiry timer fires, so the refresh effect schedules the next one
+  const [expiryCheck, setExpiryCheck] = useState(0)
+  // Latest location, read when the session expires so the user can be sent back afterwards
+  const locationRef = useRef(location)
+  locationRef.current = location
+  // Shared by concurrent 401s so a burst of failing requests triggers a single refresh
+  const refreshPromiseRef = useRef<Promise<string | null> | null>(null)
 
-  // Check if user is admin
-  const checkIsAdmin = (userData: User): boolean => {
-    if (!userData || !userData.roles) return false
+  // Roles are re-read whenever the token changes, so a refreshed token can grant or revoke them
+  const roles = useMemo(() => (token ? getTokenRoles(token) : []), [token])
+  const user = useMemo<User | null>(() => (userData ? { ...userData, roles } : null), [userData, roles])
+  const isAdmin = roles.some((role) => role.toLowerCase() === "admin")
+  const permissions = useMemo(() => {
+    const granted = roles.flatMap((role) => rolePermissions[role.toLowerCase() as Role] ?? [])
+    return [...new Set(granted)]
+  }, [roles])
 
-    return (
-      userData.roles.some((role) => typeof role === "string" && role.toLowerCase() === "admin") ||
-      (userData.email ? userData.email.toLowerCase().includes("admin") : false)
-    )
-  }
+  const hasPermission = useCallback((permission: Permission) => permissions.includes(permission), [permissions])
+
+  // Invitations are by email, so a collaborator entry may not be linked to a user id yet
+  const findCollaborator = useCallback(
+    (survey: SurveyAccess) =>
+      userData
+        ? survey.collaborators?.find(
+            (collaborator) =>
+              collaborator.userId === userData.id || collaborator.email.toLowerCase() === userData.email.toLowerCase(),
+          )
+        : undefined,
+    [userData],
+  )
+
+  const hasSurveyAccess = useCallback(
+    (survey: SurveyAccess) => (userData !== null && survey.createdBy === userData.id) || Boolean(findCollaborator(survey)),
+    [userData, findCollaborator],
+  )
+
+  const hasSurveyPermission = useCallback(
+    (permission: Permission, survey: SurveyAccess) => {
+      if (hasPermission(permission)) return true
+      if (userData !== null && survey.createdBy === userData.id) return surveyOwnerPermissions.includes(permission)
+
+      const collaborator = findCollaborator(survey)
+      return collaborator ? collaboratorPermissions[collaborator.role].includes(permission) : false
+    },
+    [hasPermission, userData, findCollaborator],
+  )
 
   // Use useCallback to memoize the function so it doesn't change on every render
   const checkAuthState = useCallback(() => {
     setIsLoading(true)
     try {
-      const token = localStorage.getItem("auth_token")
-      const userStr = localStorage.getItem("user")
+      const token = localStorage.getItem(TOKEN_STORAGE_KEY)
+      const userStr = localStorage.getItem(USER_STORAGE_KEY)
 
       if (!token || !userStr) {
-        setUser(null)
-        setIsAdmin(false)
+        setUserData(null)
+        setToken(null)
         setIsLoading(false)
         return
       }
 
-      const userData = JSON.parse(userStr) as User
-      setUser(userData)
-      setIsAdmin(checkIsAdmin(userData))
+      // Sessions stored before roles moved to the token still carry a `roles` field; it is ignored
+      const { id, username, email, profile } = JSON.parse(userStr) as User
+      setUserData({ id, username, email, profile })
+      setToken(token)
     } catch (error) {
       console.error("Error checking auth state:", error)
-      setUser(null)
-      setIsAdmin(false)
+      setUserData(null)
+      setToken(null)
     } finally {
       setIsLoading(false)
     }
@@ -66,20 +144,98 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     checkAuthState()
   }, [checkAuthState])
 
-  const login = useCallback((token: string, userData: User) => {
-    localStorage.setItem("auth_token", token)
-    localStorage.setItem("user", JSON.stringify(userData))
-    setUser(userData)
-    setIsAdmin(checkIsAdmin(userData))
+  const login = useCallback((token: string, newUserData: UserData, refreshToken?: string) => {
+    localStorage.setItem(TOKEN_STORAGE_KEY, token)
+    localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(newUserData))
+    if (refreshToken) {
+      localStorage.setItem(REFRESH_TOKEN_STORAGE_KEY, refreshToken)
+    } else {
+      localStorage.removeItem(REFRESH_TOKEN_STORAGE_KEY)
+    }
+    setUserData(newUserData)
+    setToken(token)
   }, [])
 
   const logout = useCallback(() => {
-    localStorage.removeItem("auth_token")
-    localStorage.removeItem("user")
-    setUser(null)
-    setIsAdmin(false)
+    localStorage.removeItem(TOKEN_STORAGE_KEY)
+    localStorage.removeItem(REFRESH_TOKEN_STORAGE_KEY)
+    localStorage.removeItem(USER_STORAGE_KEY)
+    setUserData(null)
+    setToken(null)
   }, [])
 
+  // Sign out and send the user to the login page, which brings them back here once they sign in again
+  const expireSession = useCallback(() => {
+    logout()
+    navigate("/login", {
+      replace: true,
+      state: { from: locationRef.current, sessionExpired: true },
+    })
+  }, [logout, navigate])
+
+  // Exchange the stored refresh token for a new access token. Resolves with null when there is no
+  // refresh token or the server refuses it.
+  const refreshSession = useCallback((): Promise<string | null> => {
+    if (refreshPromiseRef.current) return refreshPromiseRef.current
+
+    const refresh = async () => {
+      const refreshToken = localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY)
+      if (!refreshToken) return null
+
+      try {
+        const data = await AuthApi.refreshSession(refreshToken)
+        localStorage.setItem(TOKEN_STORAGE_KEY, data.token)
+        if (data.refreshToken) {
+          localStorage.setItem(REFRESH_TOKEN_STORAGE_KEY, data.refreshToken)
+        }
+        setToken(data.token)
+        return data.token
+      } catch (error) {
+        console.error("Error refreshing session:", error)
+        return null
+      }
+    }
+
+    refreshPromiseRef.current = refresh().finally(() => {
+      refreshPromiseRef.current = null
+    })
+    return refreshPromiseRef.current
+  }, [])
+
+  useEffect(() => {
+    setUnauthorizedHandler(async () => {
+      const newToken = await refreshSession()
+      if (!newToken) expireSession()
+      return newToken
+    })
+  }, [refreshSession, expireSession])
+
+  // Responses queued offline are replayed for their own user only, once the stored session is known
+  useEffect(() => {
+    if (!isLoading) setResponseQueueUser(token ? (userData?.id ?? null) : null)
+  }, [isLoading, token, userData])
+
+  // Refresh shortly before the access token expires; if that fails the session is over
+  useEffect(() => {
+    if (!token) return
+
+    const expiresAt = getTokenExpiry(token)
+    if (expiresAt === null) return
+
+    const remaining = Math.max(expiresAt - REFRESH_MARGIN_MS - Date.now(), 0)
+    if (remaining > MAX_TIMER_DELAY_MS) {
+      const timer = setTimeout(() => setExpiryCheck((check) => check + 1), MAX_TIMER_DELAY_MS)
+      return () => clearTimeout(timer)
+    }
+
+    const timer = setTimeout(async () => {
+      const newToken = await refreshSession()
+      if (!newToken) expireSession()
+    }, remaining)
+
+    return () => clearTimeout(timer)
+  }, [token, expiryCheck, refreshSession, expireSession])
+
   return (
     <AuthContext.Provider
       value={{
@@ -88,6 +244,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         login,
         logout,
         isAdmin,
+        permissions,
+        hasPermission,
+        hasSurveyPermission,
+        hasSurveyAccess,
         checkAuthState,
       }}
     >
@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { SurveyApi } from '../services/api-service';
+import { fromApiSurvey } from '../services/survey-codec';
+import type { Permission } from '../types/user';
+
+// Whether the user holds `permission` globally or on at least one survey they own or that has been
+// shared with them, e.g. a viewer opening the analytics of a survey shared with them. The surveys
+// are only fetched when the role alone does not grant it. Null while that is still being checked.
+// A null permission checks nothing and gives false.
+export function useAnySurveyPermission(permission: Permission | null): boolean | null {
+  const { user, hasPermission, hasSurveyPermission } = useAuth();
+  const hasGlobalPermission = permission !== null && hasPermission(permission);
+  const [hasSurveyGrant, setHasSurveyGrant] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    if (!user || !permission || hasGlobalPermission) return;
+
+    let cancelled = false;
+    setHasSurveyGrant(null);
+
+    const checkSurveys = async () => {
+      let granted = false;
+      try {
+        const surveys = (await SurveyApi.getAllSurveys()).map(fromApiSurvey);
+        granted = surveys.some((survey) => hasSurveyPermission(permission, survey));
+      } catch (error) {
+        console.error('Error checking survey permissions:', error);
+      }
+
+      if (!cancelled) setHasSurveyGrant(granted);
+    };
+
+    checkSurveys();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, hasGlobalPermission, hasSurveyPermission, permission]);
+
+  if (!user || !permission) return false;
+  return hasGlobalPermission || hasSurveyGrant;
+}
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+// Measures how long a respondent spends on a survey and on each question. Only one question is
+// timed at a time; time is not counted while the tab is hidden.
+export function useQuestionTimer() {
+  const startedAtRef = useRef(new Date().toISOString());
+  const elapsedRef = useRef<Record<string, number>>({});
+  const activeRef = useRef<{ questionId: string; since: number } | null>(null);
+  const pausedQuestionRef = useRef<string | null>(null);
+
+  const stopActive = useCallback(() => {
+    const active = activeRef.current;
+    if (!active) return;
+
+    elapsedRef.current[active.questionId] = (elapsedRef.current[active.questionId] || 0) + Date.now() - active.since;
+    activeRef.current = null;
+  }, []);
+
+  // Start timing `questionId`, or stop timing altogether with null
+  const trackQuestion = useCallback((questionId: string | null) => {
+    if (activeRef.current?.questionId === questionId) return;
+
+    stopActive();
+    if (questionId) {
+      activeRef.current = { questionId, since: Date.now() };
+    }
+  }, [stopActive]);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        pausedQuestionRef.current = activeRef.current?.questionId ?? null;
+        stopActive();
+      } else if (pausedQuestionRef.current) {
+        activeRef.current = { questionId: pausedQuestionRef.current, since: Date.now() };
+        pausedQuestionRef.current = null;
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [stopActive]);
+
+  // Whole seconds spent on each question so far
+  const getTimeSpent = useCallback((): Record<string, number> => {
+    const active = activeRef.current;
+    const elapsed = { ...elapsedRef.current };
+    if (active) {
+      elapsed[active.questionId] = (elapsed[active.questionId] || 0) + Date.now() - active.since;
+    }
+
+    return Object.fromEntries(Object.entries(elapsed).map(([questionId, ms]) => [questionId, Math.round(ms / 1000)]));
+  }, []);
+
+  return { startedAt: startedAtRef.current, trackQuestion, getTimeSpent };
+}
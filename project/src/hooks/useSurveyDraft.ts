@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { SurveyApi, type SurveyDraft } from '../services/api-service';
+import { useDebouncedCallback } from './useDebouncedCallback';
+
+const AUTOSAVE_DELAY = 1000;
+
+const draftStorageKey = (surveyId: string) => `survey_draft_${surveyId}`;
+
+const readLocalDraft = (surveyId: string): SurveyDraft | null => {
+  const stored = localStorage.getItem(draftStorageKey(surveyId));
+  if (!stored) return null;
+
+  try {
+    return JSON.parse(stored) as SurveyDraft;
+  } catch {
+    localStorage.removeItem(draftStorageKey(surveyId));
+    return null;
+  }
+};
+
+// Autosaves a respondent's answers to local storage, and to the draft endpoint when they are
+// signed in. `savedDraft` holds the draft found when the survey was opened until the page either
+// restores it (`acceptDraft`) or throws it away (`clearDraft`).
+export function useSurveyDraft(surveyId: string | undefined, syncWithServer: boolean) {
+  const [savedDraft, setSavedDraft] = useState<SurveyDraft | null>(null);
+  const [isChecked, setIsChecked] = useState(false);
+  // Set when the draft is cleared so an autosave that is still waiting does not bring it back
+  const discardedRef = useRef(false);
+
+  useEffect(() => {
+    if (!surveyId) return;
+
+    let cancelled = false;
+
+    const loadDraft = async () => {
+      const localDraft = readLocalDraft(surveyId);
+      let serverDraft: SurveyDraft | null = null;
+
+      if (syncWithServer) {
+        try {
+          serverDraft = await SurveyApi.getDraft(surveyId);
+        } catch (error) {
+          console.error('Error loading saved draft:', error);
+        }
+      }
+
+      if (cancelled) return;
+
+      // Offer whichever copy was saved last
+      const drafts = [localDraft, serverDraft].filter((draft): draft is SurveyDraft => draft !== null);
+      drafts.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+      setSavedDraft(drafts[0] ?? null);
+      setIsChecked(true);
+    };
+
+    loadDraft();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [surveyId, syncWithServer]);
+
+  const persistDraft = useCallback(
+    (draft: SurveyDraft) => {
+      if (discardedRef.current) return;
+
+      localStorage.setItem(draftStorageKey(draft.surveyId), JSON.stringify(draft));
+      if (syncWithServer) {
+        SurveyApi.saveDraft(draft.surveyId, draft).catch((error) => {
+          console.error('Error syncing draft:', error);
+        });
+      }
+    },
+    [syncWithServer]
+  );
+
+  const debouncedPersistDraft = useDebouncedCallback(persistDraft, AUTOSAVE_DELAY);
+
+  const saveDraft = useCallback(
+    (answers: SurveyDraft['answers'], currentQuestionIndex: number) => {
+      if (!surveyId) return;
+
+      discardedRef.current = false;
+      debouncedPersistDraft({
+        surveyId,
+        answers,
+        currentQuestionIndex,
+        updatedAt: new Date().toISOString(),
+      });
+    },
+    [surveyId, debouncedPersistDraft]
+  );
+
+  const clearDraft = useCallback(() => {
+    if (!surveyId) return;
+
+    discardedRef.current = true;
+    setSavedDraft(null);
+    localStorage.removeItem(draftStorageKey(surveyId));
+    if (syncWithServer) {
+      SurveyApi.deleteDraft(surveyId).catch((error) => {
+        console.error('Error deleting draft:', error);
+      });
+    }
+  }, [surveyId, syncWithServer]);
+
+  const acceptDraft = useCallback(() => setSavedDraft(null), []);
+
+  return { savedDraft, isChecked, saveDraft, clearDraft, acceptDraft };
+}
@@ -1,8 +1,11 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { startResponseQueueSync } from './services/response-queue';
 import './index.css';
 
+startResponseQueueSync();
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
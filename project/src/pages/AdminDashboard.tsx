@@ -37,46 +37,52 @@ import {
   LineChartIcon,
   Eye,
   FileSpreadsheet,
+  Download,
+  Paperclip,
 } from "lucide-react"
-
-// Define types based on the API
-interface Survey {
-  id: string
-  title: string
-  description: string
-  coverImageUrl?: string
-  isActive: boolean
-  createdAt: string
-  createdBy: string
-  updatedAt?: string
-  questions: Question[]
-  numberOfResponses?: number
-  category?: string
-}
-
-interface Question {
-  id: string
-  title: string
-  description?: string
-  type: QuestionType
-  options?: string[]
-  isRequired: boolean
-  imageUrl?: string
-}
-
-enum QuestionType {
-  TEXT = "TEXT",
-  MULTIPLE_CHOICE = "MULTIPLE_CHOICE",
-  CHECKBOX = "CHECKBOX",
-  RATING = "RATING",
-  DATE = "DATE",
-}
+import { useAuth } from "../context/AuthContext"
+import {
+  AdminApi,
+  SurveyApi,
+  getProxiedImageUrl,
+  type ApiResponseFile,
+  type ApiResponseRevision,
+  type ApiSurveyResponse,
+  type ApiUser,
+} from "../services/api-service"
+import {
+  fromApiSurvey,
+  getScalePoints,
+  getScaleValue,
+  isChoiceQuestion,
+  isScaleQuestion,
+  isTextQuestion,
+  parseMatrixCell,
+} from "../services/survey-codec"
+import {
+  getNpsCategory,
+  npsCategoryColors,
+  npsCategoryLabels,
+  parseNpsScore,
+  summarizeNps,
+  type NpsCategory,
+  type NpsSummary,
+} from "../services/survey-nps"
+import { formatFileSize } from "../services/survey-files"
+import { getQuestionPath, isAnswered, type AnswerLookup } from "../services/survey-logic"
+import { withPositionTokens } from "../services/survey-piping"
+import { questionTypeLabels, type Question, type QuestionType, type SavedSurvey } from "../types/survey"
+import { ageBands, demographicDimensionLabels, type DemographicDimension } from "../types/user"
+
+type Survey = SavedSurvey
 
 interface QuestionResponse {
   questionId: string
-  value: string | string[]
+  value?: string | string[]
   selectedOptions?: string[]
   answer?: string
+  timeSpentSeconds?: number
+  files?: ApiResponseFile[] | null
 }
 
 interface SurveyResponse {
@@ -85,24 +91,24 @@ interface SurveyResponse {
   userId: string
   userName?: string
   completedAt: string
+  startedAt?: string
   submittedAt?: string
   respondentId?: string
   answers: QuestionResponse[]
   responses?: QuestionResponse[]
   score?: number
+  updatedAt?: string
+  revisions: ApiResponseRevision[]
 }
 
-interface User {
-  id: string
-  username: string
-  email: string
-  roles: string[]
-}
+type User = ApiUser
 
 interface DashboardStats {
   totalResponses: number
   completionRate: number
-  avgResponseTime: number
+  avgResponseTime: number | null // null when no response has timing data
+  // Minutes gained or saved against the span before the selected time range; null without timings
+  avgResponseTimeChange: number | null
   engagementScore: number
   totalSurveys: number
   totalUsers: number
@@ -116,6 +122,22 @@ interface ResponseTrend {
   avgTime: number
 }
 
+// NPS of one survey over the selected time range
+interface SurveyNps {
+  surveyId: string
+  title: string
+  summary: NpsSummary
+}
+
+// One point of the NPS trend; promoters and detractors are percentages of that period's answers
+interface NpsTrend {
+  name: string
+  nps: number
+  promoters: number
+  detractors: number
+  answers: number
+}
+
 interface CategoryData {
   name: string
   value: number
@@ -124,15 +146,18 @@ interface CategoryData {
 
 interface DemographicData {
   name: string
-  male: number
-  female: number
-  other: number
+  responses: number
+}
+
+interface DemographicBreakdown {
+  data: DemographicData[]
+  missingCount: number // responses whose respondent has not shared the attribute
 }
 
 interface QuestionAnalytics {
   questionId: string
   questionTitle: string
-  questionType: string
+  questionType: QuestionType
   responseCount: number
   options?: {
     label: string
@@ -140,12 +165,180 @@ interface QuestionAnalytics {
     percentage: number
   }[]
   averageRating?: number
+  averageTimeSeconds?: number
   textResponses?: string[]
+  matrixColumns?: string[]
+  matrixRows?: MatrixRowCounts[]
+  rankings?: RankingStats[]
+  nps?: NpsSummary
+}
+
+// Where respondents placed one option of a ranking question, 1 being first
+interface RankingStats {
+  label: string
+  averageRank: number
+  firstChoiceCount: number
+}
+
+// How many respondents picked each column of one matrix row
+interface MatrixRowCounts {
+  row: string
+  counts: Record<string, number>
+}
+
+// Normalize a stored response into the shape the dashboard works with
+const toSurveyResponse = (resp: ApiSurveyResponse): SurveyResponse => ({
+  id: resp.id,
+  surveyId: resp.surveyId,
+  userId: resp.respondentId || "",
+  completedAt: resp.submittedAt,
+  startedAt: resp.startedAt,
+  submittedAt: resp.submittedAt,
+  respondentId: resp.respondentId,
+  answers: resp.responses || [],
+  responses: resp.responses || [],
+  updatedAt: resp.updatedAt ?? undefined,
+  revisions: resp.revisions || [],
+})
+
+const isEdited = (response: SurveyResponse) => Boolean(response.updatedAt) || response.revisions.length > 0
+
+// Minutes a respondent took to complete a survey. Uses the start and submit timestamps, falling
+// back to the per-question times; responses recorded before timing was tracked return null.
+const getResponseMinutes = (response: SurveyResponse): number | null => {
+  const submittedAt = response.submittedAt || response.completedAt
+  if (response.startedAt && submittedAt) {
+    const duration = new Date(submittedAt).getTime() - new Date(response.startedAt).getTime()
+    if (duration > 0) return duration / 60000
+  }
+
+  const answers = response.answers || response.responses || []
+  const totalSeconds = answers.reduce((sum, answer) => sum + (answer.timeSpentSeconds || 0), 0)
+  return totalSeconds > 0 ? totalSeconds / 60 : null
+}
+
+// Responses only hold the questions on the respondent's path, so a response is complete when it
+// answers every required question on the path its own answers take through the survey
+const isCompleteResponse = (response: SurveyResponse, survey: Survey | undefined) => {
+  if (!survey) return false
+
+  const answers: AnswerLookup = Object.fromEntries(
+    (response.answers || response.responses || []).map((answer) => [
+      answer.questionId,
+      answer.files?.length
+        ? answer.files.map((file) => file.fileName)
+        : answer.selectedOptions?.length
+          ? answer.selectedOptions
+          : answer.answer || "",
+    ]),
+  )
+  return getQuestionPath(survey.questions, answers).every(
+    (question) => !question.required || isAnswered(answers[question.id]),
+  )
+}
+
+const averageMinutes = (responseData: SurveyResponse[]): number | null => {
+  const durations = responseData.map(getResponseMinutes).filter((minutes): minutes is number => minutes !== null)
+  if (durations.length === 0) return null
+
+  return durations.reduce((sum, minutes) => sum + minutes, 0) / durations.length
 }
 
+const timeRangeDays: Record<string, number> = { day: 1, week: 7, month: 30, quarter: 90 }
+
+// How much the average completion time in the selected time range differs from the same span just
+// before it. Null when either span has no timed responses.
+const getAverageMinutesChange = (responseData: SurveyResponse[], timeRange: string): number | null => {
+  const span = (timeRangeDays[timeRange] ?? 7) * 24 * 60 * 60 * 1000
+  const now = Date.now()
+  const submittedBetween = (start: number, end: number) =>
+    responseData.filter((response) => {
+      const submittedAt = new Date(response.submittedAt || response.completedAt).getTime()
+      return submittedAt > start && submittedAt <= end
+    })
+
+  const current = averageMinutes(submittedBetween(now - span, now))
+  const previous = averageMinutes(submittedBetween(now - 2 * span, now - span))
+  return current === null || previous === null ? null : current - previous
+}
+
+// Count responses by a profile attribute of the respondent. Anonymous responses and respondents
+// who have not shared the attribute are counted as missing rather than guessed.
+const getDemographicBreakdown = (
+  responseData: SurveyResponse[],
+  users: User[],
+  dimension: DemographicDimension,
+): DemographicBreakdown => {
+  const counts = new Map<string, number>()
+  let missingCount = 0
+
+  responseData.forEach((response) => {
+    const userId = response.userId || response.respondentId
+    const value = users.find((u) => u.id === userId)?.profile?.[dimension]?.trim()
+
+    if (!value) {
+      missingCount++
+      return
+    }
+    counts.set(value, (counts.get(value) || 0) + 1)
+  })
+
+  const data = Array.from(counts, ([name, count]) => ({ name, responses: count }))
+  if (dimension === "ageBand") {
+    data.sort((a, b) => ageBands.indexOf(a.name) - ageBands.indexOf(b.name))
+  } else {
+    data.sort((a, b) => b.responses - a.responses)
+  }
+
+  return { data, missingCount }
+}
+
+// Score a scale answer out of 10 so likert and linear questions share the same bands
+const getScoreOutOfTen = (question: Question, answer: QuestionResponse): number | null => {
+  const rawValue = answer.value || answer.answer
+  if (!rawValue) return null
+
+  const value = getScaleValue(question, Array.isArray(rawValue) ? rawValue[0] : rawValue)
+  const max = question.likertScale?.max ?? question.linearScale?.max
+  if (value === null || !max) return null
+
+  return Math.round((value / max) * 10)
+}
+
+// The 0-10 scores a response gave to the NPS questions of its survey
+const getNpsScores = (response: SurveyResponse, survey: Survey | undefined): number[] => {
+  const npsQuestionIds = new Set((survey?.questions || []).filter((q) => q.type === "nps").map((q) => q.id))
+  const answers = response.answers || response.responses || []
+  if (npsQuestionIds.size === 0 || !Array.isArray(answers)) return []
+
+  return answers.flatMap((answer) => {
+    if (!answer || !npsQuestionIds.has(answer.questionId)) return []
+    const rawValue = answer.value || answer.answer || answer.selectedOptions?.[0]
+    const score = parseNpsScore(Array.isArray(rawValue) ? rawValue[0] : rawValue)
+    return score === null ? [] : [score]
+  })
+}
+
+// Start of the period a response falls in on the NPS trend: hours for the last day, weeks for the
+// last quarter and days otherwise
+const getTrendPeriod = (date: Date, timeRange: string) => {
+  const period = new Date(date)
+  if (timeRange === "day") {
+    period.setMinutes(0, 0, 0)
+    return period
+  }
+
+  period.setHours(0, 0, 0, 0)
+  if (timeRange === "quarter") period.setDate(period.getDate() - period.getDay())
+  return period
+}
+
+const npsCategories: NpsCategory[] = ["promoter", "passive", "detractor"]
+
 const COLORS = ["#0088FE", "#00C49F", "#FFBB28", "#FF8042", "#8884d8", "#82ca9d", "#ffc658", "#8dd1e1"]
 
 const AdminDashboard = () => {
+  const { isAdmin, hasPermission, hasSurveyPermission, hasSurveyAccess } = useAuth()
   const [selectedSurvey, setSelectedSurvey] = useState<string>("all")
   const [selectedTimeRange, setSelectedTimeRange] = useState<string>("week")
   const [showSurveyList, setShowSurveyList] = useState<boolean>(false)
@@ -157,6 +350,12 @@ const AdminDashboard = () => {
   const [selectedResponse, setSelectedResponse] = useState<SurveyResponse | null>(null)
 
   const [surveys, setSurveys] = useState<Survey[]>([])
+  // Editors and viewers get the aggregate charts only; individual responses and exports need
+  // this permission, globally or through the selected survey
+  const currentSurvey = surveys.find((s) => s.id === selectedSurvey)
+  const canViewResponses = currentSurvey
+    ? hasSurveyPermission("responses:view", currentSurvey)
+    : hasPermission("responses:view")
   const [responses, setResponses] = useState<SurveyResponse[]>([])
   const [users, setUsers] = useState<User[]>([])
   const [loading, setLoading] = useState<boolean>(true)
@@ -166,7 +365,8 @@ const AdminDashboard = () => {
   const [stats, setStats] = useState<DashboardStats>({
     totalResponses: 0,
     completionRate: 0,
-    avgResponseTime: 0,
+    avgResponseTime: null,
+    avgResponseTimeChange: null,
     engagementScore: 0,
     totalSurveys: 0,
     totalUsers: 0,
@@ -174,32 +374,25 @@ const AdminDashboard = () => {
   })
 
   const [responseTrends, setResponseTrends] = useState<ResponseTrend[]>([])
+  const [surveyNps, setSurveyNps] = useState<SurveyNps[]>([])
+  const [npsTrends, setNpsTrends] = useState<NpsTrend[]>([])
   const [categoryData, setCategoryData] = useState<CategoryData[]>([])
-  const [demographicData, setDemographicData] = useState<DemographicData[]>([])
+  const [demographicDimension, setDemographicDimension] = useState<DemographicDimension>("ageBand")
   const [recentResponses, setRecentResponses] = useState<any[]>([])
   const [questionTypeDistribution, setQuestionTypeDistribution] = useState<CategoryData[]>([])
-  const [responseTimeDistribution, setResponseTimeDistribution] = useState<any[]>([])
 
-  const apiBaseUrl = "/api"
-  const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null
-
-  // Fetch all surveys
+  // Fetch the surveys the user can analyse: every survey for admins, otherwise the ones they own
+  // or that have been shared with them
   useEffect(() => {
     const fetchSurveys = async () => {
       try {
         setLoading(true)
-        const response = await fetch(`${apiBaseUrl}/surveys`, {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        })
-
-        if (!response.ok) {
-          throw new Error(`Failed to fetch surveys: ${response.status}`)
-        }
-
-        const data = await response.json()
-        setSurveys(data)
+        const data = await SurveyApi.getAllSurveys()
+        // Piped question text and options show their {{Q2}} tokens, the form answers are stored in
+        const allSurveys = data
+          .map(fromApiSurvey)
+          .map((survey) => ({ ...survey, questions: withPositionTokens(survey.questions) }))
+        setSurveys(isAdmin ? allSurveys : allSurveys.filter(hasSurveyAccess))
       } catch (err) {
         console.error("Error fetching surveys:", err)
         setError("Failed to load surveys data")
@@ -207,32 +400,21 @@ const AdminDashboard = () => {
     }
 
     fetchSurveys()
-  }, [apiBaseUrl, token])
+  }, [isAdmin, hasSurveyAccess])
 
   // Fetch users (admin endpoint)
   useEffect(() => {
     const fetchUsers = async () => {
       try {
-        const response = await fetch(`${apiBaseUrl}/admin/users`, {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        })
-
-        if (!response.ok) {
-          console.warn("Could not fetch users, might not have admin permissions")
-          return
-        }
-
-        const data = await response.json()
+        const data = await AdminApi.getUsers()
         setUsers(data)
       } catch (err) {
-        console.error("Error fetching users:", err)
+        console.warn("Could not fetch users, might not have admin permissions", err)
       }
     }
 
     fetchUsers()
-  }, [apiBaseUrl, token])
+  }, [])
 
   // Fetch responses for all surveys or selected survey
   useEffect(() => {
@@ -248,50 +430,15 @@ const AdminDashboard = () => {
 
         // If a specific survey is selected, fetch only its responses
         if (selectedSurvey !== "all") {
-          const response = await fetch(`${apiBaseUrl}/surveys/${selectedSurvey}/responses`, {
-            headers: {
-              Authorization: `Bearer ${token}`,
-            },
-          })
-
-          if (!response.ok) {
-            throw new Error(`Failed to fetch responses: ${response.status}`)
-          }
-
-          const data = await response.json()
-          allResponses = data.map((resp: any) => ({
-            id: resp.id,
-            surveyId: resp.surveyId,
-            userId: resp.respondentId,
-            completedAt: resp.submittedAt,
-            submittedAt: resp.submittedAt,
-            respondentId: resp.respondentId,
-            answers: resp.responses || [],
-            responses: resp.responses || [],
-          }))
+          const data = await SurveyApi.getSurveyResponses(selectedSurvey)
+          allResponses = data.map(toSurveyResponse)
         } else {
           // Fetch responses for all surveys
           const responsesPromises = surveys
             .filter((survey) => survey && survey.id)
             .map((survey) =>
-              fetch(`${apiBaseUrl}/surveys/${survey.id}/responses`, {
-                headers: {
-                  Authorization: `Bearer ${token}`,
-                },
-              })
-                .then((res) => (res.ok ? res.json() : []))
-                .then((data) =>
-                  data.map((resp: any) => ({
-                    id: resp.id,
-                    surveyId: resp.surveyId,
-                    userId: resp.respondentId,
-                    completedAt: resp.submittedAt,
-                    submittedAt: resp.submittedAt,
-                    respondentId: resp.respondentId,
-                    answers: resp.responses || [],
-                    responses: resp.responses || [],
-                  })),
-                )
+              SurveyApi.getSurveyResponses(survey.id)
+                .then((data) => data.map(toSurveyResponse))
                 .catch((err) => {
                   console.error(`Error fetching responses for survey ${survey.id}:`, err)
                   return []
@@ -329,7 +476,7 @@ const AdminDashboard = () => {
     }
 
     fetchResponses()
-  }, [surveys, selectedSurvey, selectedTimeRange, users, apiBaseUrl, token, isRefreshing])
+  }, [surveys, selectedSurvey, selectedTimeRange, users, isRefreshing])
 
   // Process the data for dashboard visualization
   const processData = (responseData: SurveyResponse[]) => {
@@ -355,20 +502,14 @@ const AdminDashboard = () => {
     const activeUsers = new Set(filteredResponses.map((r) => r.userId || r.respondentId)).size
 
     // Calculate completion rate
-    const completedResponses = filteredResponses.filter((response) => {
-      const survey = surveys.find((s) => s.id === response.surveyId)
-      return (
-        survey &&
-        survey.questions &&
-        response.answers &&
-        Array.isArray(response.answers) &&
-        survey.questions.length === response.answers.length
-      )
-    }).length
+    const completedResponses = filteredResponses.filter((response) =>
+      isCompleteResponse(response, surveys.find((s) => s.id === response.surveyId)),
+    ).length
     const completionRate = totalResponses > 0 ? (completedResponses / totalResponses) * 100 : 0
 
-    // Calculate average response time (simulated)
-    const avgResponseTime = calculateAverageResponseTime(filteredResponses)
+    // Calculate average response time
+    const avgResponseTime = averageMinutes(filteredResponses)
+    const avgResponseTimeChange = getAverageMinutesChange(filteredResponses, selectedTimeRange)
 
     // Calculate engagement score
     const engagementScore = Math.min(10, completionRate / 10 + totalResponses / 100)
@@ -377,6 +518,7 @@ const AdminDashboard = () => {
       totalResponses,
       completionRate,
       avgResponseTime,
+      avgResponseTimeChange,
       engagementScore,
       totalSurveys,
       totalUsers,
@@ -389,8 +531,8 @@ const AdminDashboard = () => {
     // Process satisfaction distribution
     processSatisfactionDistribution(responseData)
 
-    // Process demographic data
-    processDemographicData(responseData)
+    // Process NPS per survey and over time
+    processNps(responseData)
 
     // Process recent responses
     processRecentResponses(responseData)
@@ -398,34 +540,10 @@ const AdminDashboard = () => {
     // Process question type distribution
     processQuestionTypeDistribution()
 
-    // Process response time distribution
-    processResponseTimeDistribution(filteredResponses)
-
     // Process question analytics
     processQuestionAnalytics(responseData)
   }
 
-  // Calculate average response time (based on real data if available, otherwise simulated)
-  const calculateAverageResponseTime = (responseData: SurveyResponse[]): number => {
-    if (!responseData || responseData.length === 0) return 0
-
-    // Simulate response time based on number of answers
-    const totalTime = responseData.reduce((sum, response) => {
-      // Assume each answer takes between 20-40 seconds
-      const questionCount = response.answers
-        ? Array.isArray(response.answers)
-          ? response.answers.length
-          : 0
-        : response.responses
-          ? response.responses.length
-          : 0
-      const estimatedTime = (questionCount * (Math.random() * 20 + 20)) / 60 // in minutes
-      return sum + estimatedTime
-    }, 0)
-
-    return totalTime / responseData.length
-  }
-
   // Process response trends
   const processResponseTrends = (responseData: SurveyResponse[]) => {
     const dayNames = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
@@ -477,27 +595,73 @@ const AdminDashboard = () => {
 
       if (dayResponses.length > 0) {
         // Calculate completion rate for this day
-        const completedCount = dayResponses.filter((r) => {
-          const survey = surveys.find((s) => s.id === r.surveyId)
-          const answers = r.answers || r.responses || []
-          return survey && survey.questions && Array.isArray(answers) && survey.questions.length === answers.length
-        }).length
+        const completedCount = dayResponses.filter((r) =>
+          isCompleteResponse(r, surveys.find((s) => s.id === r.surveyId)),
+        ).length
 
         day.completionRate = (completedCount / dayResponses.length) * 100
 
-        // Calculate average time for this day (simulated)
-        day.avgTime =
-          dayResponses.reduce((sum, response) => {
-            const answers = response.answers || response.responses || []
-            const answerCount = Array.isArray(answers) ? answers.length : 0
-            return sum + (answerCount * (Math.random() * 20 + 20)) / 60
-          }, 0) / dayResponses.length
+        // Calculate average time for this day
+        day.avgTime = averageMinutes(dayResponses) ?? 0
       }
     })
 
     setResponseTrends(dayTrends)
   }
 
+  // Promoters, passives and detractors per survey with NPS questions, and the NPS of all of them
+  // together over the selected time range
+  const processNps = (responseData: SurveyResponse[]) => {
+    let filteredResponses = filterResponsesByTimeRange(responseData)
+
+    if (selectedSurvey !== "all") {
+      filteredResponses = filteredResponses.filter((r) => r.surveyId === selectedSurvey)
+    }
+
+    const scoresBySurvey = new Map<string, number[]>()
+    const scoresByPeriod = new Map<number, number[]>()
+
+    filteredResponses.forEach((response) => {
+      const scores = getNpsScores(response, surveys.find((s) => s.id === response.surveyId))
+      if (scores.length === 0) return
+
+      scoresBySurvey.set(response.surveyId, [...(scoresBySurvey.get(response.surveyId) || []), ...scores])
+
+      const dateStr = response.completedAt || response.submittedAt
+      if (!dateStr) return
+      const period = getTrendPeriod(new Date(dateStr), selectedTimeRange).getTime()
+      if (Number.isNaN(period)) return
+      scoresByPeriod.set(period, [...(scoresByPeriod.get(period) || []), ...scores])
+    })
+
+    setSurveyNps(
+      [...scoresBySurvey].map(([surveyId, scores]) => ({
+        surveyId,
+        title: surveys.find((s) => s.id === surveyId)?.title || "Unknown Survey",
+        summary: summarizeNps(scores),
+      })),
+    )
+
+    setNpsTrends(
+      [...scoresByPeriod]
+        .sort(([a], [b]) => a - b)
+        .map(([period, scores]) => {
+          const summary = summarizeNps(scores)
+          const date = new Date(period)
+          return {
+            name:
+              selectedTimeRange === "day"
+                ? date.toLocaleTimeString(undefined, { hour: "numeric" })
+                : date.toLocaleDateString(undefined, { month: "short", day: "numeric" }),
+            nps: summary.score,
+            promoters: Math.round((summary.promoters / summary.total) * 100),
+            detractors: Math.round((summary.detractors / summary.total) * 100),
+            answers: summary.total,
+          }
+        }),
+    )
+  }
+
   // Process satisfaction distribution
   const processSatisfactionDistribution = (responseData: SurveyResponse[]) => {
     const satisfactionCounts = {
@@ -521,22 +685,19 @@ const AdminDashboard = () => {
       const answers = response.answers || response.responses || []
       if (!Array.isArray(answers)) return
 
-      const ratingAnswer = answers.find((answer) => {
-        if (!answer) return false
-
-        const survey = surveys.find((s) => s.id === response.surveyId)
-        if (!survey || !survey.questions) return false
-
-        const question = survey.questions.find((q) => q.id === answer.questionId)
-        return question && question.type === QuestionType.RATING
-      })
+      const survey = surveys.find((s) => s.id === response.surveyId)
+      const ratingScore = answers
+        .map((answer) => {
+          const question = survey?.questions.find((q) => q.id === answer?.questionId)
+          return question && isScaleQuestion(question.type) ? getScoreOutOfTen(question, answer) : null
+        })
+        .find((value) => value !== null)
 
       let score = 0
 
-      if (ratingAnswer) {
+      if (ratingScore !== undefined && ratingScore !== null) {
         // Use the rating answer value
-        const value = ratingAnswer.value || ratingAnswer.answer
-        score = Number.parseInt(Array.isArray(value) ? value[0] : value, 10)
+        score = ratingScore
       } else if (response.score !== undefined) {
         // Use the overall score if available
         score = response.score
@@ -560,64 +721,6 @@ const AdminDashboard = () => {
     ])
   }
 
-  // Process demographic data based on user information
-  const processDemographicData = (responseData: SurveyResponse[]) => {
-    // Extract unique respondents
-    const uniqueRespondents = new Map<string, User>()
-
-    responseData.forEach((response) => {
-      const userId = response.userId || response.respondentId
-      if (!userId) return
-
-      const user = users.find((u) => u.id === userId)
-      if (user) {
-        uniqueRespondents.set(userId, user)
-      }
-    })
-
-    // For this example, we'll create simulated demographic data based on user IDs
-    // In a real application, you would extract this from user profiles
-
-    // Create age groups
-    const ageGroups = ["18-24", "25-34", "35-44", "45-54", "55+"]
-
-    // Generate demographic data based on user IDs
-    const demographics = ageGroups.map((group) => {
-      // Use consistent random numbers based on group name for demo purposes
-      const groupHash = group.split("").reduce((acc, char) => acc + char.charCodeAt(0), 0)
-      const seed = groupHash / 1000
-
-      // Get users for the selected survey if applicable
-      let relevantUsers = Array.from(uniqueRespondents.values())
-
-      if (selectedSurvey !== "all") {
-        const surveyRespondentIds = responseData
-          .filter((r) => r.surveyId === selectedSurvey)
-          .map((r) => r.userId || r.respondentId)
-          .filter(Boolean) as string[]
-
-        relevantUsers = relevantUsers.filter((u) => surveyRespondentIds.includes(u.id))
-      }
-
-      const userCount = relevantUsers.length
-
-      // Distribute users across age groups and genders
-      // This is simulated - in a real app, you'd use actual demographic data
-      const maleCount = Math.floor(userCount * (0.2 + (seed % 0.3)))
-      const femaleCount = Math.floor(userCount * (0.2 + ((seed + 0.1) % 0.3)))
-      const otherCount = Math.max(1, userCount - maleCount - femaleCount)
-
-      return {
-        name: group,
-        male: maleCount,
-        female: femaleCount,
-        other: otherCount,
-      }
-    })
-
-    setDemographicData(demographics)
-  }
-
   // Process recent responses
   const processRecentResponses = (responseData: SurveyResponse[]) => {
     // Filter responses based on selected time range
@@ -662,15 +765,15 @@ const AdminDashboard = () => {
         if (!score) {
           const answers = response.answers || response.responses || []
           if (Array.isArray(answers)) {
-            const ratingAnswer = answers.find((answer) => {
-              if (!answer) return false
-              const question = survey?.questions?.find((q) => q.id === answer.questionId)
-              return question && question.type === QuestionType.RATING
-            })
-
-            if (ratingAnswer) {
-              const value = ratingAnswer.value || ratingAnswer.answer
-              score = Number.parseInt(Array.isArray(value) ? value[0] : value, 10)
+            const ratingScore = answers
+              .map((answer) => {
+                const question = survey?.questions.find((q) => q.id === answer?.questionId)
+                return question && isScaleQuestion(question.type) ? getScoreOutOfTen(question, answer) : null
+              })
+              .find((value) => value !== null)
+
+            if (ratingScore !== undefined && ratingScore !== null) {
+              score = ratingScore
             } else {
               // Generate a random score between 7-10 for demo purposes
               score = Math.floor(Math.random() * 4) + 7
@@ -696,13 +799,9 @@ const AdminDashboard = () => {
 
   // Process question type distribution
   const processQuestionTypeDistribution = () => {
-    const questionTypes: Record<string, number> = {
-      Text: 0,
-      "Multiple Choice": 0,
-      Checkbox: 0,
-      Rating: 0,
-      Date: 0,
-    }
+    const questionTypes = Object.fromEntries(
+      Object.keys(questionTypeLabels).map((type) => [type, 0]),
+    ) as Record<QuestionType, number>
 
     // If a specific survey is selected, only count its question types
     const relevantSurveys = selectedSurvey === "all" ? surveys : surveys.filter((s) => s.id === selectedSurvey)
@@ -712,29 +811,13 @@ const AdminDashboard = () => {
       if (!survey.questions) return
 
       survey.questions.forEach((question) => {
-        switch (question.type) {
-          case QuestionType.TEXT:
-            questionTypes["Text"]++
-            break
-          case QuestionType.MULTIPLE_CHOICE:
-            questionTypes["Multiple Choice"]++
-            break
-          case QuestionType.CHECKBOX:
-            questionTypes["Checkbox"]++
-            break
-          case QuestionType.RATING:
-            questionTypes["Rating"]++
-            break
-          case QuestionType.DATE:
-            questionTypes["Date"]++
-            break
-        }
+        questionTypes[question.type]++
       })
     })
 
     // Convert to array format for charts
-    const distribution = Object.entries(questionTypes).map(([name, value], index) => ({
-      name,
+    const distribution = (Object.entries(questionTypes) as [QuestionType, number][]).map(([type, value], index) => ({
+      name: questionTypeLabels[type],
       value,
       color: COLORS[index % COLORS.length],
     }))
@@ -742,34 +825,6 @@ const AdminDashboard = () => {
     setQuestionTypeDistribution(distribution)
   }
 
-  // Process response time distribution
-  const processResponseTimeDistribution = (responseData: SurveyResponse[]) => {
-    // Filter responses for the selected survey if applicable
-    const relevantResponses =
-      selectedSurvey === "all" ? responseData : responseData.filter((r) => r.surveyId === selectedSurvey)
-
-    // Create time ranges in minutes
-    const timeRanges = [
-      { name: "< 2 min", min: 0, max: 2, count: 0 },
-      { name: "2-5 min", min: 2, max: 5, count: 0 },
-      { name: "5-10 min", min: 5, max: 10, count: 0 },
-      { name: "> 10 min", min: 10, max: Number.POSITIVE_INFINITY, count: 0 },
-    ]
-
-    // Count responses in each time range
-    relevantResponses.forEach((response) => {
-      // Simulate response time based on answer count
-      const answers = response.answers || response.responses || []
-      const questionCount = Array.isArray(answers) ? answers.length : 0
-      const estimatedTime = (questionCount * (Math.random() * 20 + 20)) / 60 // in minutes
-
-      const range = timeRanges.find((r) => estimatedTime >= r.min && estimatedTime < r.max)
-      if (range) range.count++
-    })
-
-    setResponseTimeDistribution(timeRanges)
-  }
-
   // Process question analytics
   const processQuestionAnalytics = (responseData: SurveyResponse[]) => {
     // Only process if a specific survey is selected
@@ -791,7 +846,7 @@ const AdminDashboard = () => {
     const analytics = survey.questions.map((question) => {
       const questionAnalytic: QuestionAnalytics = {
         questionId: question.id,
-        questionTitle: question.title,
+        questionTitle: question.question,
         questionType: question.type,
         responseCount: 0,
       }
@@ -806,81 +861,127 @@ const AdminDashboard = () => {
 
       questionAnalytic.responseCount = answers.length
 
+      const timedAnswers = answers.filter((answer) => answer.timeSpentSeconds !== undefined)
+      if (timedAnswers.length > 0) {
+        questionAnalytic.averageTimeSeconds =
+          timedAnswers.reduce((sum, answer) => sum + (answer.timeSpentSeconds || 0), 0) / timedAnswers.length
+      }
+
       // Process based on question type
-      switch (question.type) {
-        case QuestionType.MULTIPLE_CHOICE:
-        case QuestionType.CHECKBOX:
-          if (question.options) {
-            const optionCounts: Record<string, number> = {}
-
-            // Initialize all options with 0 count
-            question.options.forEach((option) => {
-              optionCounts[option] = 0
-            })
-
-            // Count occurrences of each option
-            answers.forEach((answer) => {
-              if (!answer) return
-
-              // Handle both value and selectedOptions fields
-              let values: string[] = []
-
-              if (answer.selectedOptions && Array.isArray(answer.selectedOptions)) {
-                values = answer.selectedOptions
-              } else if (answer.value) {
-                values = Array.isArray(answer.value) ? answer.value : [answer.value]
-              } else if (answer.answer) {
-                values = Array.isArray(answer.answer) ? answer.answer : [answer.answer]
-              }
-
-              values.forEach((value) => {
-                if (optionCounts[value] !== undefined) {
-                  optionCounts[value]++
-                }
-              })
-            })
-
-            // Convert to percentage format
-            questionAnalytic.options = Object.entries(optionCounts).map(([label, count]) => ({
-              label,
-              count,
-              percentage: answers.length > 0 ? (count / answers.length) * 100 : 0,
-            }))
+      if (isChoiceQuestion(question.type) && question.options) {
+        const optionCounts: Record<string, number> = {}
+
+        // Initialize all options with 0 count
+        question.options.forEach((option) => {
+          optionCounts[option] = 0
+        })
+
+        // Count occurrences of each option
+        answers.forEach((answer) => {
+          if (!answer) return
+
+          // Handle both value and selectedOptions fields. Single-choice answers are sent with an
+          // empty selectedOptions array, so only trust it when it actually holds something.
+          let values: string[] = []
+
+          if (answer.selectedOptions && answer.selectedOptions.length > 0) {
+            values = answer.selectedOptions
+          } else if (answer.value) {
+            values = Array.isArray(answer.value) ? answer.value : [answer.value]
+          } else if (answer.answer) {
+            values = [answer.answer]
           }
-          break
 
-        case QuestionType.RATING:
-          // Calculate average rating
-          let totalRating = 0
-          let ratingCount = 0
+          values.forEach((value) => {
+            if (optionCounts[value] !== undefined) {
+              optionCounts[value]++
+            }
+          })
+        })
 
-          answers.forEach((answer) => {
-            if (!answer) return
+        // Convert to percentage format
+        questionAnalytic.options = Object.entries(optionCounts).map(([label, count]) => ({
+          label,
+          count,
+          percentage: answers.length > 0 ? (count / answers.length) * 100 : 0,
+        }))
+      } else if (isScaleQuestion(question.type)) {
+        // Calculate average rating
+        let totalRating = 0
+        let ratingCount = 0
+
+        answers.forEach((answer) => {
+          if (!answer) return
+
+          // Handle both value and answer fields
+          const rawValue = answer.value || answer.answer
+          if (!rawValue) return
+
+          const rating = getScaleValue(question, Array.isArray(rawValue) ? rawValue[0] : rawValue)
+          if (rating !== null) {
+            totalRating += rating
+            ratingCount++
+          }
+        })
 
-            // Handle both value and answer fields
-            const rawValue = answer.value || answer.answer
-            if (!rawValue) return
+        questionAnalytic.averageRating = ratingCount > 0 ? totalRating / ratingCount : 0
+      } else if (question.type === "nps") {
+        const scores = answers.flatMap((answer) => {
+          const rawValue = answer.value || answer.answer || answer.selectedOptions?.[0]
+          const score = parseNpsScore(Array.isArray(rawValue) ? rawValue[0] : rawValue)
+          return score === null ? [] : [score]
+        })
 
-            const value = Array.isArray(rawValue) ? rawValue[0] : rawValue
-            const rating = Number.parseInt(value, 10)
-            if (!isNaN(rating)) {
-              totalRating += rating
-              ratingCount++
+        questionAnalytic.nps = summarizeNps(scores)
+        questionAnalytic.options = getScalePoints(question).map((point) => {
+          const count = scores.filter((score) => score === Number(point)).length
+          return { label: point, count, percentage: scores.length > 0 ? (count / scores.length) * 100 : 0 }
+        })
+      } else if (question.type === "ranking" && question.options) {
+        const options = question.options
+        const rankings = answers
+          .map((answer) => (answer.selectedOptions?.length ? answer.selectedOptions : answer.value))
+          .filter((ranking): ranking is string[] => Array.isArray(ranking) && ranking.length > 0)
+
+        questionAnalytic.responseCount = rankings.length
+        questionAnalytic.rankings = options
+          .map((option) => {
+            const ranks = rankings.map((ranking) => ranking.indexOf(option) + 1).filter((rank) => rank > 0)
+            return {
+              label: option,
+              averageRank: ranks.length > 0 ? ranks.reduce((sum, rank) => sum + rank, 0) / ranks.length : 0,
+              firstChoiceCount: rankings.filter((ranking) => ranking[0] === option).length,
             }
           })
+          .sort((a, b) => (a.averageRank || Infinity) - (b.averageRank || Infinity))
+      } else if (question.type === "matrix" && question.matrix) {
+        const { rows, columns } = question.matrix
+        const matrixRows: MatrixRowCounts[] = rows.map((row) => ({
+          row,
+          counts: Object.fromEntries(columns.map((column) => [column, 0])),
+        }))
+
+        answers.forEach((answer) => {
+          const cells = answer.selectedOptions?.length ? answer.selectedOptions : answer.value
+          if (!Array.isArray(cells)) return
+
+          cells.forEach((cell) => {
+            const parsed = parseMatrixCell(question, cell)
+            const rowCounts = parsed && matrixRows.find((entry) => entry.row === parsed.row)
+            if (parsed && rowCounts) rowCounts.counts[parsed.column]++
+          })
+        })
 
-          questionAnalytic.averageRating = ratingCount > 0 ? totalRating / ratingCount : 0
-          break
-
-        case QuestionType.TEXT:
-          // Collect text responses
-          questionAnalytic.textResponses = answers
-            .filter((answer) => answer && (answer.value || answer.answer))
-            .map((answer) => {
-              const value = answer.value || answer.answer
-              return Array.isArray(value) ? value.join(", ") : value
-            })
-          break
+        questionAnalytic.matrixColumns = columns
+        questionAnalytic.matrixRows = matrixRows
+      } else if (isTextQuestion(question.type)) {
+        // Collect text responses
+        questionAnalytic.textResponses = answers
+          .map((answer) => {
+            const value = answer.value || answer.answer
+            return Array.isArray(value) ? value.join(", ") : value
+          })
+          .filter((value): value is string => Boolean(value))
       }
 
       return questionAnalytic
@@ -933,7 +1034,8 @@ const AdminDashboard = () => {
     setStats({
       totalResponses: 0,
       completionRate: 0,
-      avgResponseTime: 0,
+      avgResponseTime: null,
+      avgResponseTimeChange: null,
       engagementScore: 0,
       totalSurveys: surveys.length,
       totalUsers: users.length,
@@ -957,20 +1059,49 @@ const AdminDashboard = () => {
       { name: "Dissatisfied", value: 0, color: "#FF8042" },
     ])
 
-    setDemographicData([
-      { name: "18-24", male: 0, female: 0, other: 0 },
-      { name: "25-34", male: 0, female: 0, other: 0 },
-      { name: "35-44", male: 0, female: 0, other: 0 },
-      { name: "45-54", male: 0, female: 0, other: 0 },
-      { name: "55+", male: 0, female: 0, other: 0 },
-    ])
-
+    setSurveyNps([])
+    setNpsTrends([])
     setRecentResponses([])
     setQuestionTypeDistribution([])
-    setResponseTimeDistribution([])
     setQuestionAnalytics([])
   }
 
+  // A bar split into promoters, passives and detractors, with their counts underneath
+  const renderNpsBreakdown = (summary: NpsSummary) => {
+    const counts: Record<NpsCategory, number> = {
+      promoter: summary.promoters,
+      passive: summary.passives,
+      detractor: summary.detractors,
+    }
+
+    return (
+      <div>
+        <div className="flex h-3 rounded-full overflow-hidden bg-gray-100">
+          {npsCategories.map((category) =>
+            counts[category] > 0 ? (
+              <div
+                key={category}
+                style={{
+                  width: `${(counts[category] / summary.total) * 100}%`,
+                  backgroundColor: npsCategoryColors[category],
+                }}
+              />
+            ) : null,
+          )}
+        </div>
+        <div className="flex justify-between mt-2 text-xs text-gray-600">
+          {npsCategories.map((category) => (
+            <span key={category} className="flex items-center">
+              <span className="w-2 h-2 rounded-full mr-1" style={{ backgroundColor: npsCategoryColors[category] }} />
+              {npsCategoryLabels[category]}: {counts[category]}
+              {summary.total > 0 && ` (${Math.round((counts[category] / summary.total) * 100)}%)`}
+            </span>
+          ))}
+        </div>
+      </div>
+    )
+  }
+
   // Format numbers with commas
   const formatNumber = (num: number) => {
     return num.toString().replace(/\B(?=(\d{3})+(?!\d))/g, ",")
@@ -996,9 +1127,13 @@ const AdminDashboard = () => {
     },
     {
       title: "Avg. Response Time",
-      value: `${stats.avgResponseTime.toFixed(1)} min`,
-      trend: "-0.3 min",
-      isPositive: true,
+      value: stats.avgResponseTime === null ? "No data" : `${stats.avgResponseTime.toFixed(1)} min`,
+      trend:
+        stats.avgResponseTimeChange === null
+          ? null
+          : `${stats.avgResponseTimeChange > 0 ? "+" : ""}${stats.avgResponseTimeChange.toFixed(1)} min`,
+      // Finishing faster is the improvement
+      isPositive: (stats.avgResponseTimeChange ?? 0) <= 0,
       icon: Clock,
       color: "bg-purple-500",
     },
@@ -1030,18 +1165,7 @@ const AdminDashboard = () => {
   // Handle export responses
   const handleExportResponses = async (surveyId: string) => {
     try {
-      const response = await fetch(`${apiBaseUrl}/surveys/${surveyId}/responses/export`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      })
-
-      if (!response.ok) {
-        throw new Error(`Failed to export responses: ${response.status}`)
-      }
-
-      // Create a blob from the response
-      const blob = await response.blob()
+      const blob = await SurveyApi.exportSurveyResponses(surveyId)
 
       // Create a download link and trigger the download
       const url = window.URL.createObjectURL(blob)
@@ -1058,6 +1182,13 @@ const AdminDashboard = () => {
     }
   }
 
+  // Respondent breakdown for the selected survey (or all of them) along the chosen dimension
+  const demographics = useMemo(() => {
+    const relevantResponses =
+      selectedSurvey === "all" ? responses : responses.filter((r) => r.surveyId === selectedSurvey)
+    return getDemographicBreakdown(relevantResponses, users, demographicDimension)
+  }, [responses, users, selectedSurvey, demographicDimension])
+
   // Filter surveys by search query
   const filteredSurveys = useMemo(() => {
     if (!searchQuery) return surveys
@@ -1089,18 +1220,25 @@ const AdminDashboard = () => {
     if (!question) return String(rawValue)
 
     switch (question.type) {
-      case QuestionType.CHECKBOX:
-        if (answer.selectedOptions && Array.isArray(answer.selectedOptions)) {
+      case "checkbox":
+      case "matrix":
+        if (answer.selectedOptions && answer.selectedOptions.length > 0) {
           return answer.selectedOptions.join(", ")
         }
         return Array.isArray(rawValue) ? rawValue.join(", ") : rawValue
-      case QuestionType.MULTIPLE_CHOICE:
-        return Array.isArray(rawValue) ? rawValue.join(", ") : rawValue
-      case QuestionType.RATING:
-        return `${Array.isArray(rawValue) ? rawValue[0] : rawValue}/10`
-      case QuestionType.TEXT:
+      case "file_upload":
+        if (answer.files && answer.files.length > 0) {
+          return answer.files.map((file) => file.fileName).join(", ")
+        }
         return Array.isArray(rawValue) ? rawValue.join(", ") : rawValue
-      case QuestionType.DATE:
+      case "ranking":
+        if (!Array.isArray(rawValue)) return rawValue
+        return rawValue.map((option, index) => `${index + 1}. ${option}`).join(", ")
+      case "nps":
+      case "linear_scale":
+        return `${Array.isArray(rawValue) ? rawValue[0] : rawValue}/${question.linearScale?.max ?? 10}`
+      case "date":
+      case "time":
         return Array.isArray(rawValue) ? rawValue[0] : rawValue
       default:
         return String(Array.isArray(rawValue) ? rawValue.join(", ") : rawValue)
@@ -1206,16 +1344,18 @@ const AdminDashboard = () => {
         >
           Overview
         </button>
-        <button
-          onClick={() => setActiveTab("responses")}
-          className={`px-4 py-2 font-medium text-sm ${
-            activeTab === "responses"
-              ? "text-indigo-600 border-b-2 border-indigo-600"
-              : "text-gray-500 hover:text-gray-700"
-          }`}
-        >
-          Responses
-        </button>
+        {canViewResponses && (
+          <button
+            onClick={() => setActiveTab("responses")}
+            className={`px-4 py-2 font-medium text-sm ${
+              activeTab === "responses"
+                ? "text-indigo-600 border-b-2 border-indigo-600"
+                : "text-gray-500 hover:text-gray-700"
+            }`}
+          >
+            Responses
+          </button>
+        )}
         <button
           onClick={() => setActiveTab("questions")}
           className={`px-4 py-2 font-medium text-sm ${
@@ -1262,14 +1402,16 @@ const AdminDashboard = () => {
                       <div className={`${stat.color} p-3 rounded-lg`}>
                         <stat.icon className="h-6 w-6 text-white" />
                       </div>
-                      <div className={`flex items-center ${stat.isPositive ? "text-green-500" : "text-red-500"}`}>
-                        {stat.isPositive ? (
-                          <ArrowUp className="h-4 w-4 mr-1" />
-                        ) : (
-                          <ArrowDown className="h-4 w-4 mr-1" />
-                        )}
-                        <span className="text-sm font-medium">{stat.trend}</span>
-                      </div>
+                      {stat.trend !== null && (
+                        <div className={`flex items-center ${stat.isPositive ? "text-green-500" : "text-red-500"}`}>
+                          {stat.isPositive ? (
+                            <ArrowUp className="h-4 w-4 mr-1" />
+                          ) : (
+                            <ArrowDown className="h-4 w-4 mr-1" />
+                          )}
+                          <span className="text-sm font-medium">{stat.trend}</span>
+                        </div>
+                      )}
                     </div>
                     <div className="flex flex-col">
                       <p className="text-sm font-medium text-gray-600">{stat.title}</p>
@@ -1381,26 +1523,133 @@ const AdminDashboard = () => {
                   <div className="flex items-center justify-between mb-6">
                     <h2 className="text-xl font-semibold text-gray-900">Demographics</h2>
                     <div className="flex items-center space-x-2">
+                      <select
+                        value={demographicDimension}
+                        onChange={(e) => setDemographicDimension(e.target.value as DemographicDimension)}
+                        className="text-sm border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+                      >
+                        {(Object.keys(demographicDimensionLabels) as DemographicDimension[]).map((dimension) => (
+                          <option key={dimension} value={dimension}>
+                            {demographicDimensionLabels[dimension]}
+                          </option>
+                        ))}
+                      </select>
                       <UserCheck className="h-4 w-4 text-gray-400" />
                     </div>
                   </div>
-                  <div className="w-full h-[300px] min-h-[300px]">
-                    <ResponsiveContainer width="100%" height="100%">
-                      <BarChart data={demographicData}>
-                        <CartesianGrid strokeDasharray="3 3" />
-                        <XAxis dataKey="name" />
-                        <YAxis />
-                        <Tooltip />
-                        <Legend />
-                        <Bar dataKey="male" fill="#3B82F6" />
-                        <Bar dataKey="female" fill="#EC4899" />
-                        <Bar dataKey="other" fill="#8B5CF6" />
-                      </BarChart>
-                    </ResponsiveContainer>
-                  </div>
+                  {demographics.data.length > 0 ? (
+                    <>
+                      <div className="w-full h-[300px] min-h-[300px]">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <BarChart data={demographics.data}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="name" />
+                            <YAxis allowDecimals={false} />
+                            <Tooltip />
+                            <Legend />
+                            <Bar dataKey="responses" fill="#3B82F6" />
+                          </BarChart>
+                        </ResponsiveContainer>
+                      </div>
+                      {demographics.missingCount > 0 && (
+                        <p className="mt-2 text-sm text-gray-500">
+                          {demographics.missingCount} responses have no{" "}
+                          {demographicDimensionLabels[demographicDimension].toLowerCase()} on record and are not shown.
+                        </p>
+                      )}
+                    </>
+                  ) : (
+                    <div className="w-full h-[300px] min-h-[300px] flex flex-col items-center justify-center text-center">
+                      <UserCheck className="h-10 w-10 text-gray-300 mb-3" />
+                      <p className="text-gray-500">
+                        No {demographicDimensionLabels[demographicDimension].toLowerCase()} data for these responses.
+                      </p>
+                      <p className="text-sm text-gray-400 mt-1">
+                        Respondents need to be signed in and share it in their profile.
+                      </p>
+                    </div>
+                  )}
                 </div>
               </div>
 
+              {/* Net Promoter Score */}
+              {surveyNps.length > 0 && (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+                  <div className="bg-white p-6 rounded-xl shadow-md">
+                    <h2 className="text-xl font-semibold text-gray-900 mb-6">Net Promoter Score</h2>
+                    <div className="space-y-6 max-h-[300px] overflow-y-auto">
+                      {surveyNps.map(({ surveyId, title, summary }) => (
+                        <div key={surveyId}>
+                          <div className="flex items-baseline justify-between mb-2">
+                            <span className="text-sm font-medium text-gray-700 truncate mr-4">{title}</span>
+                            <span
+                              className={`text-2xl font-bold ${
+                                summary.score > 0 ? "text-green-600" : summary.score < 0 ? "text-red-600" : "text-gray-600"
+                              }`}
+                            >
+                              {summary.score > 0 ? `+${summary.score}` : summary.score}
+                            </span>
+                          </div>
+                          {renderNpsBreakdown(summary)}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="bg-white p-6 rounded-xl shadow-md">
+                    <h2 className="text-xl font-semibold text-gray-900 mb-6">NPS Over Time</h2>
+                    <div className="w-full h-[300px] min-h-[300px]">
+                      <ResponsiveContainer width="100%" height="100%">
+                        {selectedChartType === "area" ? (
+                          <AreaChart data={npsTrends}>
+                            <defs>
+                              <linearGradient id="npsGradient" x1="0" y1="0" x2="0" y2="1">
+                                <stop offset="5%" stopColor="#6366f1" stopOpacity={0.8} />
+                                <stop offset="95%" stopColor="#6366f1" stopOpacity={0} />
+                              </linearGradient>
+                            </defs>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="name" />
+                            <YAxis domain={[-100, 100]} />
+                            <Tooltip />
+                            <Legend />
+                            <Area
+                              type="monotone"
+                              dataKey="nps"
+                              name="NPS"
+                              stroke="#6366f1"
+                              fillOpacity={1}
+                              fill="url(#npsGradient)"
+                            />
+                          </AreaChart>
+                        ) : (
+                          <LineChart data={npsTrends}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="name" />
+                            <YAxis domain={[-100, 100]} />
+                            <Tooltip />
+                            <Legend />
+                            <Line type="monotone" dataKey="nps" name="NPS" stroke="#6366f1" strokeWidth={2} />
+                            <Line
+                              type="monotone"
+                              dataKey="promoters"
+                              name="Promoters %"
+                              stroke={npsCategoryColors.promoter}
+                            />
+                            <Line
+                              type="monotone"
+                              dataKey="detractors"
+                              name="Detractors %"
+                              stroke={npsCategoryColors.detractor}
+                            />
+                          </LineChart>
+                        )}
+                      </ResponsiveContainer>
+                    </div>
+                  </div>
+                </div>
+              )}
+
               {/* Bottom Section */}
               <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
                 {/* Satisfaction Distribution */}
@@ -1430,83 +1679,85 @@ const AdminDashboard = () => {
                 </div>
 
                 {/* Recent Responses */}
-                <div className="bg-white p-6 rounded-xl shadow-md lg:col-span-2">
-                  <div className="flex items-center justify-between mb-6">
-                    <h2 className="text-xl font-semibold text-gray-900">Recent Responses</h2>
-                    <button
-                      onClick={() => setActiveTab("responses")}
-                      className="text-sm text-indigo-600 hover:text-indigo-800 flex items-center"
-                    >
-                      View All <ChevronRight className="h-4 w-4 ml-1" />
-                    </button>
-                  </div>
-                  <div className="overflow-x-auto">
-                    {recentResponses.length > 0 ? (
-                      <table className="min-w-full">
-                        <thead>
-                          <tr className="border-b border-gray-200">
-                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                              User
-                            </th>
-                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                              Survey
-                            </th>
-                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                              Time
-                            </th>
-                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                              Score
-                            </th>
-                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                              Actions
-                            </th>
-                          </tr>
-                        </thead>
-                        <tbody className="divide-y divide-gray-200">
-                          {recentResponses.slice(0, 5).map((response) => (
-                            <tr key={response.id} className="hover:bg-gray-50">
-                              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                                {response.user}
-                              </td>
-                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{response.survey}</td>
-                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{response.time}</td>
-                              <td className="px-6 py-4 whitespace-nowrap">
-                                <span
-                                  className={`px-2 py-1 rounded-full text-xs font-medium ${
-                                    response.score >= 8
-                                      ? "bg-green-100 text-green-800"
-                                      : response.score >= 6
-                                        ? "bg-yellow-100 text-yellow-800"
-                                        : "bg-red-100 text-red-800"
-                                  }`}
-                                >
-                                  {response.score}/10
-                                </span>
-                              </td>
-                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                                <button
-                                  onClick={() => handleViewResponseDetails(response)}
-                                  className="text-indigo-600 hover:text-indigo-900 flex items-center"
-                                >
-                                  <Eye className="h-4 w-4 mr-1" />
-                                  View
-                                </button>
-                              </td>
+                {canViewResponses && (
+                  <div className="bg-white p-6 rounded-xl shadow-md lg:col-span-2">
+                    <div className="flex items-center justify-between mb-6">
+                      <h2 className="text-xl font-semibold text-gray-900">Recent Responses</h2>
+                      <button
+                        onClick={() => setActiveTab("responses")}
+                        className="text-sm text-indigo-600 hover:text-indigo-800 flex items-center"
+                      >
+                        View All <ChevronRight className="h-4 w-4 ml-1" />
+                      </button>
+                    </div>
+                    <div className="overflow-x-auto">
+                      {recentResponses.length > 0 ? (
+                        <table className="min-w-full">
+                          <thead>
+                            <tr className="border-b border-gray-200">
+                              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                User
+                              </th>
+                              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                Survey
+                              </th>
+                              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                Time
+                              </th>
+                              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                Score
+                              </th>
+                              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                Actions
+                              </th>
                             </tr>
-                          ))}
-                        </tbody>
-                      </table>
-                    ) : (
-                      <div className="text-center py-8 text-gray-500">No recent responses available</div>
-                    )}
+                          </thead>
+                          <tbody className="divide-y divide-gray-200">
+                            {recentResponses.slice(0, 5).map((response) => (
+                              <tr key={response.id} className="hover:bg-gray-50">
+                                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                                  {response.user}
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{response.survey}</td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{response.time}</td>
+                                <td className="px-6 py-4 whitespace-nowrap">
+                                  <span
+                                    className={`px-2 py-1 rounded-full text-xs font-medium ${
+                                      response.score >= 8
+                                        ? "bg-green-100 text-green-800"
+                                        : response.score >= 6
+                                          ? "bg-yellow-100 text-yellow-800"
+                                          : "bg-red-100 text-red-800"
+                                    }`}
+                                  >
+                                    {response.score}/10
+                                  </span>
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                  <button
+                                    onClick={() => handleViewResponseDetails(response)}
+                                    className="text-indigo-600 hover:text-indigo-900 flex items-center"
+                                  >
+                                    <Eye className="h-4 w-4 mr-1" />
+                                    View
+                                  </button>
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      ) : (
+                        <div className="text-center py-8 text-gray-500">No recent responses available</div>
+                      )}
+                    </div>
                   </div>
-                </div>
+                )}
               </div>
             </>
           )}
 
           {/* Responses Tab */}
-          {activeTab === "responses" && (
+          {activeTab === "responses" && canViewResponses && (
             <div className="bg-white p-6 rounded-xl shadow-md">
               <div className="flex items-center justify-between mb-6">
                 <h2 className="text-xl font-semibold text-gray-900">All Responses</h2>
@@ -1566,6 +1817,11 @@ const AdminDashboard = () => {
                               {response.completedAt || response.submittedAt
                                 ? new Date(response.completedAt || response.submittedAt).toLocaleString()
                                 : "Unknown"}
+                              {isEdited(response) && (
+                                <span className="ml-2 px-2 py-0.5 bg-amber-100 text-amber-800 text-xs rounded-full">
+                                  Edited
+                                </span>
+                              )}
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                               {Array.isArray(answers) ? answers.length : 0} / {survey?.questions?.length || "?"}
@@ -1616,13 +1872,16 @@ const AdminDashboard = () => {
                       <h3 className="text-lg font-medium text-gray-900 mb-2">{question.questionTitle}</h3>
                       <div className="flex items-center text-sm text-gray-500 mb-4">
                         <span className="bg-indigo-100 text-indigo-800 px-2 py-1 rounded text-xs mr-2">
-                          {question.questionType}
+                          {questionTypeLabels[question.questionType]}
                         </span>
                         <span>{question.responseCount} responses</span>
+                        {question.averageTimeSeconds !== undefined && (
+                          <span className="ml-2">· {Math.round(question.averageTimeSeconds)}s avg. on screen</span>
+                        )}
                       </div>
 
                       {/* Different visualizations based on question type */}
-                      {question.questionType === QuestionType.MULTIPLE_CHOICE && question.options && (
+                      {question.questionType === "multiple_choice" && question.options && (
                         <div className="h-[200px]">
                           <ResponsiveContainer width="100%" height="100%">
                             <BarChart data={question.options}>
@@ -1636,7 +1895,7 @@ const AdminDashboard = () => {
                         </div>
                       )}
 
-                      {question.questionType === QuestionType.CHECKBOX && question.options && (
+                      {question.questionType === "checkbox" && question.options && (
                         <div className="h-[200px]">
                           <ResponsiveContainer width="100%" height="100%">
                             <BarChart data={question.options}>
@@ -1650,7 +1909,105 @@ const AdminDashboard = () => {
                         </div>
                       )}
 
-                      {question.questionType === QuestionType.RATING && question.averageRating !== undefined && (
+                      {question.questionType === "matrix" && question.matrixRows && question.matrixColumns && (
+                        // One stacked bar per row, split by how many respondents picked each column
+                        <div style={{ height: Math.max(200, question.matrixRows.length * 48) }}>
+                          <ResponsiveContainer width="100%" height="100%">
+                            <BarChart data={question.matrixRows} layout="vertical">
+                              <CartesianGrid strokeDasharray="3 3" />
+                              <XAxis type="number" allowDecimals={false} />
+                              <YAxis type="category" dataKey="row" width={160} />
+                              <Tooltip />
+                              <Legend />
+                              {question.matrixColumns.map((column, index) => (
+                                <Bar
+                                  key={index}
+                                  name={column}
+                                  dataKey={(entry: MatrixRowCounts) => entry.counts[column] ?? 0}
+                                  stackId="matrix"
+                                  fill={COLORS[index % COLORS.length]}
+                                />
+                              ))}
+                            </BarChart>
+                          </ResponsiveContainer>
+                        </div>
+                      )}
+
+                      {question.questionType === "ranking" && question.rankings && (
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                          <div>
+                            <h4 className="text-sm font-medium text-gray-700 mb-2">Average rank (lower is better)</h4>
+                            <div style={{ height: Math.max(200, question.rankings.length * 40) }}>
+                              <ResponsiveContainer width="100%" height="100%">
+                                <BarChart data={question.rankings} layout="vertical">
+                                  <CartesianGrid strokeDasharray="3 3" />
+                                  <XAxis type="number" domain={[0, question.rankings.length]} allowDecimals={false} />
+                                  <YAxis type="category" dataKey="label" width={140} />
+                                  <Tooltip formatter={(value: number) => value.toFixed(2)} />
+                                  <Bar dataKey="averageRank" name="Average rank" fill="#8884d8" />
+                                </BarChart>
+                              </ResponsiveContainer>
+                            </div>
+                          </div>
+                          <div>
+                            <h4 className="text-sm font-medium text-gray-700 mb-2">Ranked first</h4>
+                            <div className="h-[240px]">
+                              <ResponsiveContainer width="100%" height="100%">
+                                <PieChart>
+                                  <Pie
+                                    data={question.rankings.filter((option) => option.firstChoiceCount > 0)}
+                                    dataKey="firstChoiceCount"
+                                    nameKey="label"
+                                    cx="50%"
+                                    cy="50%"
+                                    outerRadius={80}
+                                  >
+                                    {question.rankings
+                                      .filter((option) => option.firstChoiceCount > 0)
+                                      .map((option, index) => (
+                                        <Cell key={option.label} fill={COLORS[index % COLORS.length]} />
+                                      ))}
+                                  </Pie>
+                                  <Tooltip />
+                                  <Legend />
+                                </PieChart>
+                              </ResponsiveContainer>
+                            </div>
+                          </div>
+                        </div>
+                      )}
+
+                      {question.questionType === "nps" && question.nps && question.options && (
+                        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 items-center">
+                          <div className="flex flex-col items-center">
+                            <div className="text-4xl font-bold text-indigo-600 mb-2">
+                              {question.nps.score > 0 ? `+${question.nps.score}` : question.nps.score}
+                            </div>
+                            <div className="text-sm text-gray-500 mb-4">Net Promoter Score</div>
+                            <div className="w-full">{renderNpsBreakdown(question.nps)}</div>
+                          </div>
+                          <div className="h-[200px] lg:col-span-2">
+                            <ResponsiveContainer width="100%" height="100%">
+                              <BarChart data={question.options}>
+                                <CartesianGrid strokeDasharray="3 3" />
+                                <XAxis dataKey="label" />
+                                <YAxis allowDecimals={false} />
+                                <Tooltip />
+                                <Bar dataKey="count" name="Responses">
+                                  {question.options.map((option) => (
+                                    <Cell
+                                      key={option.label}
+                                      fill={npsCategoryColors[getNpsCategory(Number(option.label))]}
+                                    />
+                                  ))}
+                                </Bar>
+                              </BarChart>
+                            </ResponsiveContainer>
+                          </div>
+                        </div>
+                      )}
+
+                      {isScaleQuestion(question.questionType) && question.averageRating !== undefined && (
                         <div className="flex flex-col items-center">
                           <div className="text-4xl font-bold text-indigo-600 mb-2">
                             {question.averageRating.toFixed(1)}
@@ -1659,7 +2016,7 @@ const AdminDashboard = () => {
                         </div>
                       )}
 
-                      {question.questionType === QuestionType.TEXT && question.textResponses && (
+                      {canViewResponses && isTextQuestion(question.questionType) && question.textResponses && (
                         <div className="max-h-[300px] overflow-y-auto">
                           <h4 className="text-sm font-medium text-gray-700 mb-2">Text Responses:</h4>
                           <ul className="space-y-2">
@@ -1732,13 +2089,34 @@ const AdminDashboard = () => {
                           const question = getQuestionDetails(answer.questionId, selectedResponse.surveyId)
                           return (
                             <div key={answer.questionId} className="border border-gray-200 rounded-lg p-4">
-                              <p className="font-medium mb-2">{question?.title || "Unknown Question"}</p>
+                              <p className="font-medium mb-2">{question?.question || "Unknown Question"}</p>
                               <div className="flex items-center text-sm text-gray-500 mb-2">
                                 <span className="bg-indigo-100 text-indigo-800 px-2 py-1 rounded text-xs">
-                                  {question?.type || "Unknown Type"}
+                                  {question ? questionTypeLabels[question.type] : "Unknown Type"}
                                 </span>
                               </div>
-                              <p className="text-gray-800">{formatAnswerValue(answer, selectedResponse.surveyId)}</p>
+                              {answer.files && answer.files.length > 0 ? (
+                                <ul className="space-y-2">
+                                  {answer.files.map((file) => (
+                                    <li key={file.url} className="flex items-center text-sm">
+                                      <Paperclip className="h-4 w-4 text-gray-400 mr-2 flex-shrink-0" />
+                                      <a
+                                        href={getProxiedImageUrl(file.url)}
+                                        download={file.fileName}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="flex items-center min-w-0 text-indigo-600 hover:text-indigo-800"
+                                      >
+                                        <span className="truncate">{file.fileName}</span>
+                                        <Download className="h-4 w-4 ml-1 flex-shrink-0" />
+                                      </a>
+                                      <span className="ml-3 text-gray-500 whitespace-nowrap">{formatFileSize(file.size)}</span>
+                                    </li>
+                                  ))}
+                                </ul>
+                              ) : (
+                                <p className="text-gray-800">{formatAnswerValue(answer, selectedResponse.surveyId)}</p>
+                              )}
                             </div>
                           )
                         })
@@ -1747,6 +2125,41 @@ const AdminDashboard = () => {
                       )}
                     </div>
                   </div>
+
+                  {selectedResponse.revisions.length > 0 && (
+                    <div className="border-t border-gray-200 pt-4 mt-6">
+                      <h3 className="text-lg font-medium mb-1">Revision History</h3>
+                      <p className="text-sm text-gray-500 mb-4">
+                        Last edited{" "}
+                        {selectedResponse.updatedAt ? new Date(selectedResponse.updatedAt).toLocaleString() : "at an unknown time"}
+                        . Earlier versions, newest first:
+                      </p>
+                      <div className="space-y-4">
+                        {[...selectedResponse.revisions].reverse().map((revision) => (
+                          <details key={revision.revisedAt} className="border border-gray-200 rounded-lg p-4">
+                            <summary className="cursor-pointer text-sm font-medium text-gray-700">
+                              Submitted {new Date(revision.submittedAt).toLocaleString()}, replaced{" "}
+                              {new Date(revision.revisedAt).toLocaleString()}
+                            </summary>
+                            <ul className="mt-3 space-y-2">
+                              {revision.responses.map((answer) => (
+                                <li key={answer.questionId} className="text-sm">
+                                  <span className="text-gray-500">
+                                    {getQuestionDetails(answer.questionId, selectedResponse.surveyId)?.question ||
+                                      "Unknown Question"}
+                                    :
+                                  </span>{" "}
+                                  <span className="text-gray-800">
+                                    {formatAnswerValue(answer, selectedResponse.surveyId)}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          </details>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -2,7 +2,7 @@
 
 import React from "react"
 import { useState, useEffect, useRef } from "react"
-import { useNavigate } from "react-router-dom"
+import { useNavigate, useParams } from "react-router-dom"
 import { motion, AnimatePresence } from "framer-motion"
 import {
   Plus,
@@ -26,149 +26,206 @@ import {
   HelpCircle,
   AlertTriangle,
   CheckCircle,
+  GitBranch,
+  Layers,
+  Grid3x3,
+  ListOrdered,
+  Gauge,
+  Paperclip,
+  UploadCloud,
+  ShieldCheck,
 } from "lucide-react"
-import axios from "axios"
-import { DragDropContext, Droppable, Draggable } from "@hello-pangea/dnd"
-
-// Update imports to include the API service
-// Remove this line:
-// import { surveyService } from "../services/api-service"
-
-// Define question types that match the API’s numeric types
-type QuestionType =
-  | "multiple_choice"
-  | "likert_scale"
-  | "open_ended"
-  | "checkbox"
-  | "linear_scale"
-  | "date"
-  | "time"
-  | "closed_ended"
-
-interface Question {
-  id: string
-  type: QuestionType
-  question: string
-  required: boolean
-  description?: string
-  options?: string[]
-  likertScale?: {
-    min: number
-    max: number
-    labels: string[]
-  }
-  linearScale?: {
-    min: number
-    max: number
-    minLabel: string
-    maxLabel: string
-  }
-}
+import { DragDropContext, Droppable, Draggable, type DropResult } from "@hello-pangea/dnd"
+import { useAuth } from "../context/AuthContext"
+import { ApiError, SurveyApi, getProxiedImageUrl } from "../services/api-service"
+import { fromApiSurvey, isChoiceQuestion, isLocalImageUrl, toApiQuestions, toApiSections } from "../services/survey-codec"
+import { hasBranchingLogic, isPresenceOperator, removeQuestionReferences } from "../services/survey-logic"
+import { defaultFileUploadSettings, describeFileTypes, fileTypePresets } from "../services/survey-files"
+import { NPS_POINTS, getNpsCategory, type NpsCategory } from "../services/survey-nps"
+import { createPipingToken, removePipingReferences, toIdTokens, toPositionTokens } from "../services/survey-piping"
+import {
+  flattenSectionGroups,
+  groupQuestionsBySection,
+  hasSectionPages,
+  type SectionGroup,
+} from "../services/survey-sections"
+import { getPatternError, getValidationRuleTypes, ruleTakesValue } from "../services/survey-validation"
+import {
+  conditionOperatorLabels,
+  defaultSurveySchedule,
+  defaultSurveySettings,
+  questionTypeLabels,
+  surveyStatusLabels,
+  surveyThemes,
+  validationRuleLabels,
+  type Collaborator,
+  type ConditionOperator,
+  type Question,
+  type QuestionType,
+  type StoredSurveyStatus,
+  type Survey,
+  type SurveySchedule,
+  type SurveySection,
+  type ValidationRule,
+  type ValidationRuleType,
+} from "../types/survey"
 
-// API interfaces based on the response format
-interface ApiQuestion {
-  title: string
-  description: string
-  type: number // API uses numeric types
-  options: string[]
-  isRequired: boolean
-  imageUrl?: string | null
+// Question type display names and icons
+const questionTypeInfo: Record<QuestionType, { name: string; icon: React.ElementType }> = {
+  multiple_choice: { name: questionTypeLabels.multiple_choice, icon: List },
+  checkbox: { name: questionTypeLabels.checkbox, icon: CheckSquare },
+  likert_scale: { name: questionTypeLabels.likert_scale, icon: BarChart4 },
+  linear_scale: { name: questionTypeLabels.linear_scale, icon: BarChart4 },
+  open_ended: { name: questionTypeLabels.open_ended, icon: MessageSquare },
+  closed_ended: { name: questionTypeLabels.closed_ended, icon: FileText },
+  date: { name: questionTypeLabels.date, icon: Calendar },
+  time: { name: questionTypeLabels.time, icon: Clock },
+  matrix: { name: questionTypeLabels.matrix, icon: Grid3x3 },
+  ranking: { name: questionTypeLabels.ranking, icon: ListOrdered },
+  nps: { name: questionTypeLabels.nps, icon: Gauge },
+  file_upload: { name: questionTypeLabels.file_upload, icon: Paperclip },
 }
 
-const API_BASE_URL = "/api"
-
-// Map our question types to the API’s numeric types
-const questionTypeToApiType = (type: QuestionType): number => {
-  switch (type) {
-    case "likert_scale":
-      return 0
-    case "multiple_choice":
-      return 1
-    case "open_ended":
-      return 2
-    case "checkbox":
-      return 3
-    case "linear_scale":
-      return 4
-    case "date":
-      return 5
-    case "time":
-      return 6
-    case "closed_ended":
-      return 7
-    default:
-      return 1
-  }
+const npsPointColors: Record<NpsCategory, string> = {
+  detractor: "border-red-200 text-red-600",
+  passive: "border-amber-200 text-amber-600",
+  promoter: "border-green-200 text-green-600",
 }
 
-// Question type display names and icons
-const questionTypeInfo = {
-  multiple_choice: { name: "Multiple Choice", icon: List },
-  checkbox: { name: "Checkbox", icon: CheckSquare },
-  likert_scale: { name: "Likert Scale", icon: BarChart4 },
-  linear_scale: { name: "Linear Scale", icon: BarChart4 },
-  open_ended: { name: "Open-Ended", icon: MessageSquare },
-  closed_ended: { name: "Closed-Ended", icon: FileText },
-  date: { name: "Date", icon: Calendar },
-  time: { name: "Time", icon: Clock },
+// <input type="datetime-local"> works in local time without a zone; the API stores ISO timestamps
+const toDateTimeLocal = (iso: string | null) => {
+  if (!iso) return ""
+  const date = new Date(iso)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16)
 }
 
+const fromDateTimeLocal = (value: string) => (value ? new Date(value).toISOString() : null)
+
+const generateId = () => Math.random().toString(36).substr(2, 9)
+
+const createSection = (): SurveySection => ({ id: generateId(), title: "", description: "" })
+
+const appendToken = (text: string, token: string) => (text && !text.endsWith(" ") ? `${text} ${token}` : `${text}${token}`)
+
 const CreateSurvey = () => {
   const navigate = useNavigate()
-  const [survey, setSurvey] = useState({
+  // The same builder serves /create-survey and /surveys/:id/edit
+  const { id: surveyId } = useParams<{ id: string }>()
+  const isEditing = Boolean(surveyId)
+  const [survey, setSurvey] = useState<Survey>({
     title: "",
     description: "",
     category: "",
-    settings: {
-      requireSignIn: false,
-      shuffleQuestions: false,
-      showProgressBar: true,
-      allowReview: true,
-      theme: "default",
-    },
-    questions: [] as Question[],
+    settings: { ...defaultSurveySettings },
+    schedule: { ...defaultSurveySchedule },
+    sections: [createSection()],
+    questions: [],
   })
 
+  const { hasPermission, hasSurveyPermission } = useAuth()
   const [previewMode, setPreviewMode] = useState(false)
   const [showSettings, setShowSettings] = useState(false)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [submitError, setSubmitError] = useState<string | null>(null)
   const [submitSuccess, setSubmitSuccess] = useState(false)
-  const [isAuthenticated, setIsAuthenticated] = useState(false)
   const [coverImage, setCoverImage] = useState<File | null>(null)
   const [coverImagePreview, setCoverImagePreview] = useState<string | null>(null)
   const [activeQuestionIndex, setActiveQuestionIndex] = useState<number | null>(null)
   const [showTips, setShowTips] = useState(true)
   const [showQuestionLibrary, setShowQuestionLibrary] = useState(false)
+  const [isLoadingSurvey, setIsLoadingSurvey] = useState(isEditing)
+  const [existingCoverImageUrl, setExistingCoverImageUrl] = useState<string | null>(null)
+  // Question and option images picked since the last save, by the object URL they are previewed
+  // from. The URL stands in for the image in the question until the survey is saved.
+  const [pendingImages, setPendingImages] = useState<Record<string, File>>({})
+  // Ids of questions that already exist on the server. They are sent back on update so the
+  // server keeps their responses; questions added in the builder only have a local id.
+  const [savedQuestionIds, setSavedQuestionIds] = useState<Set<string>>(new Set())
+  // Creator and collaborators of the survey being edited; editing rights can come from owning it or
+  // from being shared on it as an editor
+  const [surveyCreatedBy, setSurveyCreatedBy] = useState<string | null>(null)
+  const [surveyCollaborators, setSurveyCollaborators] = useState<Collaborator[]>([])
+  // Status of the survey being edited; null while creating a new one
+  const [savedStatus, setSavedStatus] = useState<StoredSurveyStatus | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
-  // Check if user is authenticated
+  // Load the survey being edited
   useEffect(() => {
-    const token = localStorage.getItem("auth_token")
-    const user = localStorage.getItem("user")
+    if (!surveyId) return
 
-    if (token && user) {
+    const fetchSurvey = async () => {
+      setIsLoadingSurvey(true)
       try {
-        // Check if user has admin role or admin in email
-        const userData = JSON.parse(user)
-        if (
-          userData.roles?.includes("Admin") ||
-          userData.roles?.includes("admin") ||
-          userData.email?.includes("admin")
-        ) {
-          setIsAuthenticated(true)
+        const savedSurvey = fromApiSurvey(await SurveyApi.getSurveyById(surveyId))
+        setSurvey({
+          title: savedSurvey.title,
+          description: savedSurvey.description,
+          category: savedSurvey.category,
+          settings: savedSurvey.settings,
+          schedule: savedSurvey.schedule,
+          // Surveys saved before sections existed get one untitled section holding every question
+          sections: savedSurvey.sections.length > 0 ? savedSurvey.sections : [createSection()],
+          questions: savedSurvey.questions,
+        })
+        setSavedQuestionIds(new Set(savedSurvey.questions.map((q) => q.id)))
+        setSurveyCreatedBy(savedSurvey.createdBy)
+        setSurveyCollaborators(savedSurvey.collaborators)
+        setSavedStatus(savedSurvey.status)
+        setExistingCoverImageUrl(savedSurvey.coverImageUrl ? getProxiedImageUrl(savedSurvey.coverImageUrl) : null)
+      } catch (error) {
+        console.error("Error loading survey:", error)
+        if (error instanceof ApiError && error.isNotFound) {
+          setSubmitError("Survey not found. It may have been deleted.")
         } else {
-          setSubmitError("You need admin privileges to create surveys")
+          setSubmitError(`Failed to load survey: ${error instanceof Error ? error.message : "Unknown error"}`)
         }
-      } catch (e) {
-        setSubmitError("Invalid user data. Please log in again.")
+      } finally {
+        setIsLoadingSurvey(false)
       }
-    } else {
-      setSubmitError("You need to be logged in as an admin to create surveys")
     }
-  }, [])
 
-  const generateId = () => Math.random().toString(36).substr(2, 9)
+    fetchSurvey()
+  }, [surveyId])
+
+  const canSave = isEditing
+    ? surveyCreatedBy !== null &&
+      hasSurveyPermission("surveys:edit", { createdBy: surveyCreatedBy, collaborators: surveyCollaborators })
+    : hasPermission("surveys:create")
+  const permissionMessage = isEditing
+    ? "You don't have permission to edit this survey"
+    : "You don't have permission to create surveys"
+
+  // The main button publishes new surveys and drafts; a survey that is already published keeps
+  // its status, which is changed from the survey list
+  const publishStatus: StoredSurveyStatus = savedStatus && savedStatus !== "draft" ? savedStatus : "open"
+  const canSaveDraft = savedStatus === null || savedStatus === "draft"
+
+  const updateSchedule = (changes: Partial<SurveySchedule>) =>
+    setSurvey({ ...survey, schedule: { ...survey.schedule, ...changes } })
+
+  // The builder lists questions section by section; `survey.questions` is kept in the same order
+  const sectionGroups = groupQuestionsBySection(survey.sections, survey.questions)
+
+  const setSectionGroups = (groups: SectionGroup[]) =>
+    setSurvey({ ...survey, sections: groups.map((group) => group.section), questions: flattenSectionGroups(groups) })
+
+  // New questions go at the end of the section holding the active question, or of the last section
+  const insertQuestion = (newQuestion: Question) => {
+    const activeQuestionId = activeQuestionIndex !== null ? survey.questions[activeQuestionIndex]?.id : undefined
+    const targetGroup =
+      sectionGroups.find((group) => group.questions.some((question) => question.id === activeQuestionId)) ??
+      sectionGroups[sectionGroups.length - 1]
+
+    const newQuestions = flattenSectionGroups(
+      sectionGroups.map((group) =>
+        group === targetGroup ? { ...group, questions: [...group.questions, newQuestion] } : group,
+      ),
+    )
+    setSurvey({ ...survey, questions: newQuestions })
+
+    // Set the newly added question as active
+    setActiveQuestionIndex(newQuestions.findIndex((question) => question.id === newQuestion.id))
+  }
 
   const addQuestion = (type: QuestionType) => {
     const newQuestion: Question = {
@@ -179,6 +236,7 @@ const CreateSurvey = () => {
       description: "",
       ...(type === "multiple_choice" && { options: [""] }),
       ...(type === "checkbox" && { options: [""] }),
+      ...(type === "ranking" && { options: ["", ""] }),
       ...(type === "likert_scale" && {
         likertScale: {
           min: 1,
@@ -194,16 +252,17 @@ const CreateSurvey = () => {
           maxLabel: "Extremely likely",
         },
       }),
+      ...(type === "matrix" && {
+        matrix: {
+          rows: ["", ""],
+          columns: ["Strongly Disagree", "Disagree", "Neutral", "Agree", "Strongly Agree"],
+          multiplePerRow: false,
+        },
+      }),
+      ...(type === "file_upload" && { fileUpload: { ...defaultFileUploadSettings } }),
     }
 
-    const newQuestions = [...survey.questions, newQuestion]
-    setSurvey({
-      ...survey,
-      questions: newQuestions,
-    })
-
-    // Set the newly added question as active
-    setActiveQuestionIndex(newQuestions.length - 1)
+    insertQuestion(newQuestion)
   }
 
   const duplicateQuestion = (questionIndex: number) => {
@@ -220,7 +279,14 @@ const CreateSurvey = () => {
   }
 
   const removeQuestion = (index: number) => {
-    const newQuestions = survey.questions.filter((_, i) => i !== index)
+    const removedId = survey.questions[index].id
+    const newQuestions = removePipingReferences(
+      removeQuestionReferences(
+        survey.questions.filter((_, i) => i !== index),
+        removedId,
+      ),
+      removedId,
+    )
     setSurvey({ ...survey, questions: newQuestions })
     setActiveQuestionIndex(null)
   }
@@ -247,59 +313,90 @@ const CreateSurvey = () => {
     }
   }
 
-  const handleDragEnd = (result: any) => {
-    if (!result.destination) return
+  const attachImage = (file: File) => {
+    const url = URL.createObjectURL(file)
+    setPendingImages((prev) => ({ ...prev, [url]: file }))
+    return url
+  }
+
+  const releaseImages = (urls: string[]) => {
+    urls.forEach((url) => URL.revokeObjectURL(url))
+    setPendingImages((prev) => Object.fromEntries(Object.entries(prev).filter(([url]) => !urls.includes(url))))
+  }
+
+  // Free picked images nothing shows any more: replaced, removed, or their question or option deleted
+  useEffect(() => {
+    const inUse = new Set(survey.questions.flatMap((question) => [question.imageUrl, ...(question.optionImages || [])]))
+    const unused = Object.keys(pendingImages).filter((url) => !inUse.has(url))
+    if (unused.length > 0) releaseImages(unused)
+  }, [survey.questions, pendingImages])
+
+  // Whatever is still pending when the builder closes
+  const pendingImagesRef = useRef(pendingImages)
+  pendingImagesRef.current = pendingImages
+  useEffect(() => () => Object.keys(pendingImagesRef.current).forEach((url) => URL.revokeObjectURL(url)), [])
+
+  const setOptionImage = (index: number, optionIndex: number, url: string | null) => {
+    const question = survey.questions[index]
+    const optionImages = (question.options || []).map((_, i) =>
+      i === optionIndex ? url : (question.optionImages?.[i] ?? null),
+    )
+    updateQuestion(index, { optionImages: optionImages.some(Boolean) ? optionImages : undefined })
+  }
+
+  // Each section is its own drop zone, so a question can be dragged into another section
+  const handleDragEnd = ({ source, destination }: DropResult) => {
+    if (!destination) return
 
-    const items = Array.from(survey.questions)
-    const [reorderedItem] = items.splice(result.source.index, 1)
-    items.splice(result.destination.index, 0, reorderedItem)
+    const groups = sectionGroups.map((group) => ({ ...group, questions: [...group.questions] }))
+    const sourceGroup = groups.find((group) => group.section.id === source.droppableId)
+    const destinationGroup = groups.find((group) => group.section.id === destination.droppableId)
+    if (!sourceGroup || !destinationGroup) return
 
-    setSurvey({ ...survey, questions: items })
+    const activeQuestionId = activeQuestionIndex !== null ? survey.questions[activeQuestionIndex]?.id : undefined
+    const [movedQuestion] = sourceGroup.questions.splice(source.index, 1)
+    destinationGroup.questions.splice(destination.index, 0, movedQuestion)
+    const newQuestions = flattenSectionGroups(groups)
+    setSurvey({ ...survey, questions: newQuestions })
 
-    // Update active question index if it was moved
-    if (activeQuestionIndex === result.source.index) {
-      setActiveQuestionIndex(result.destination.index)
+    // Keep the same question active wherever it ended up
+    if (activeQuestionId) {
+      setActiveQuestionIndex(newQuestions.findIndex((question) => question.id === activeQuestionId))
     }
   }
 
-  // Convert our survey format to the API format
-  const convertToApiFormat = () => {
-    // Convert questions to API format
-    const apiQuestions = survey.questions.map((q) => {
-      let options: string[] = []
-
-      // Handle different question types
-      if (q.type === "multiple_choice" || q.type === "checkbox") {
-        options = q.options || []
-      } else if (q.type === "likert_scale" && q.likertScale) {
-        // For likert scale, use the labels instead of numeric values
-        options = q.likertScale.labels
-      } else if (q.type === "linear_scale" && q.linearScale) {
-        // For linear scale, create options from min to max
-        options = []
-        for (let i = q.linearScale.min; i <= q.linearScale.max; i++) {
-          options.push(i.toString())
-        }
-      }
+  const addSection = () => setSurvey({ ...survey, sections: [...survey.sections, createSection()] })
 
-      return {
-        title: q.question,
-        description: q.description || "",
-        type: questionTypeToApiType(q.type),
-        options: options,
-        isRequired: q.required,
-      }
+  const updateSection = (sectionId: string, changes: Partial<SurveySection>) =>
+    setSurvey({
+      ...survey,
+      sections: survey.sections.map((section) => (section.id === sectionId ? { ...section, ...changes } : section)),
     })
 
-    return apiQuestions
+  // The questions of a removed section move to the section before it, or the next one for the first
+  const removeSection = (sectionIndex: number) => {
+    if (sectionGroups.length <= 1) return
+
+    const removedQuestions = sectionGroups[sectionIndex].questions
+    const targetIndex = sectionIndex === 0 ? 1 : sectionIndex - 1
+    setSectionGroups(
+      sectionGroups.flatMap((group, index) => {
+        if (index === sectionIndex) return []
+        if (index !== targetIndex) return [group]
+        const questions =
+          sectionIndex === 0 ? [...removedQuestions, ...group.questions] : [...group.questions, ...removedQuestions]
+        return [{ ...group, questions }]
+      }),
+    )
+    setActiveQuestionIndex(null)
   }
 
   // Update the handleSubmit function to use the API service
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.SyntheticEvent, status: StoredSurveyStatus = publishStatus) => {
     e.preventDefault()
 
-    if (!isAuthenticated) {
-      setSubmitError("You need to be logged in as an admin to create surveys")
+    if (!canSave) {
+      setSubmitError(permissionMessage)
       return
     }
 
@@ -308,87 +405,402 @@ const CreateSurvey = () => {
       return
     }
 
-    if (survey.questions.length === 0) {
+    // Drafts can be saved while still incomplete
+    if (status !== "draft" && survey.questions.length === 0) {
       setSubmitError("At least one question is required")
       return
     }
 
+    const { opensAt, closesAt, maxResponses } = survey.schedule
+    if (opensAt && closesAt && new Date(closesAt) <= new Date(opensAt)) {
+      setSubmitError("The closing date must be after the opening date")
+      return
+    }
+
+    if (maxResponses !== null && (!Number.isInteger(maxResponses) || maxResponses < 1)) {
+      setSubmitError("The response limit must be a whole number of at least 1")
+      return
+    }
+
     setIsSubmitting(true)
     setSubmitError(null)
     setSubmitSuccess(false)
 
     try {
-      const apiQuestions = convertToApiFormat()
-
-      // Get the authentication token
-      const token = localStorage.getItem("auth_token")
-
-      if (!token) {
-        throw new Error("Authentication token not found. Please log in again.")
-      }
+      const orderedQuestions = flattenSectionGroups(sectionGroups)
+      const apiQuestions = toApiQuestions(orderedQuestions, savedQuestionIds, survey.sections)
 
       // Create FormData for file upload support
       const formData = new FormData()
       formData.append("title", survey.title)
       formData.append("description", survey.description)
-      formData.append("isActive", "true")
+      formData.append("category", survey.category)
+      formData.append("status", status)
+      formData.append("isActive", String(status === "open"))
+      // Empty values clear a previously set date or limit
+      formData.append("opensAt", opensAt ?? "")
+      formData.append("closesAt", closesAt ?? "")
+      formData.append("maxResponses", maxResponses === null ? "" : String(maxResponses))
+      formData.append("settingsJson", JSON.stringify(survey.settings))
 
       // Convert questions array to JSON string
       formData.append("questionsJson", JSON.stringify(apiQuestions))
+      formData.append("sectionsJson", JSON.stringify(toApiSections(survey.sections)))
 
       // Add cover image if selected
       if (coverImage) {
         formData.append("coverImage", coverImage)
       }
 
-      // Send the request to create a survey with the auth token
-      const response = await axios.post(`${API_BASE_URL}/surveys`, formData, {
-        headers: {
-          "Content-Type": "multipart/form-data",
-          Authorization: `Bearer ${token}`,
-        },
+      // New question and option images go as their own parts, named after the question's position
+      // in questionsJson (and the option's position within it)
+      orderedQuestions.forEach((question, questionIndex) => {
+        if (isLocalImageUrl(question.imageUrl) && pendingImages[question.imageUrl]) {
+          formData.append(`questionImages[${questionIndex}]`, pendingImages[question.imageUrl])
+        }
+        question.optionImages?.forEach((url, optionIndex) => {
+          if (isLocalImageUrl(url) && pendingImages[url]) {
+            formData.append(`optionImages[${questionIndex}][${optionIndex}]`, pendingImages[url])
+          }
+        })
       })
 
-      console.log("Survey created:", response.data)
-      setSubmitSuccess(true)
-
-      // Reset form after successful submission
-      setSurvey({
-        title: "",
-        description: "",
-        category: "",
-        settings: {
-          requireSignIn: false,
-          shuffleQuestions: false,
-          showProgressBar: true,
-          allowReview: true,
-          theme: "default",
-        },
-        questions: [],
-      })
-      setCoverImage(null)
-      setCoverImagePreview(null)
+      if (surveyId) {
+        await SurveyApi.updateSurvey(surveyId, formData)
+        setSavedStatus(status)
+        setSubmitSuccess(true)
+      } else {
+        const createdSurvey = await SurveyApi.createSurvey(formData)
+
+        console.log("Survey created:", createdSurvey)
+        setSubmitSuccess(true)
+
+        // Reset form after successful submission
+        setSurvey({
+          title: "",
+          description: "",
+          category: "",
+          settings: { ...defaultSurveySettings },
+          schedule: { ...defaultSurveySchedule },
+          sections: [createSection()],
+          questions: [],
+        })
+        setCoverImage(null)
+        setCoverImagePreview(null)
+        releaseImages(Object.keys(pendingImages))
+      }
 
       // Redirect to surveys list after a short delay
       setTimeout(() => {
         navigate("/surveys")
       }, 2000)
     } catch (error) {
-      console.error("Error creating survey:", error)
-      if (axios.isAxiosError(error) && error.response) {
-        if (error.response.status === 401) {
+      const action = isEditing ? "update" : "create"
+      console.error(`Error trying to ${action} survey:`, error)
+      if (error instanceof ApiError && !error.isNetworkError) {
+        if (error.isUnauthorized) {
           setSubmitError("Unauthorized: Your session may have expired. Please log in again.")
         } else {
-          setSubmitError(`Failed to create survey: ${error.response.data?.message || error.message}`)
+          setSubmitError(`Failed to ${action} survey: ${error.message}`)
         }
       } else {
-        setSubmitError("Failed to create survey. Please try again.")
+        setSubmitError(`Failed to ${action} survey. Please try again.`)
       }
     } finally {
       setIsSubmitting(false)
     }
   }
 
+  const updateQuestion = (index: number, changes: Partial<Question>) => {
+    const newQuestions = [...survey.questions]
+    newQuestions[index] = { ...newQuestions[index], ...changes }
+    setSurvey({ ...survey, questions: newQuestions })
+  }
+
+  // Piped answers are typed and shown as numbered tokens ({{Q1}}) but held by question id in state.
+  // Only earlier questions can be piped, so later numbers are left as plain text.
+  const getPipedText = (text: string) => toPositionTokens(text, survey.questions)
+  const toStoredText = (index: number, text: string) => toIdTokens(text, survey.questions.slice(0, index))
+
+  const getQuestionLabel = (question: Question) =>
+    `Q${survey.questions.findIndex((q) => q.id === question.id) + 1}: ${getPipedText(question.question) || "Untitled question"}`
+
+  // Lists the questions before `index` and hands the chosen one's token to `onInsert`
+  const renderPipingPicker = (index: number, onInsert: (token: string) => void) =>
+    index > 0 && (
+      <select
+        value=""
+        onChange={(e) => e.target.value !== "" && onInsert(createPipingToken(Number(e.target.value)))}
+        className="max-w-[10rem] rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-xs text-gray-600"
+        aria-label="Insert an earlier answer"
+        title="Insert an earlier answer. Add a fallback for skipped questions, e.g. {{Q1|your team}}"
+      >
+        <option value="">Insert answer...</option>
+        {survey.questions.slice(0, index).map((earlier, earlierIndex) => (
+          <option key={earlier.id} value={earlierIndex}>
+            {getQuestionLabel(earlier)}
+          </option>
+        ))}
+      </select>
+    )
+
+  // Choice questions are compared against one of their options; anything else takes free text
+  const renderRuleValueInput = (source: Question | undefined, value: string, onChange: (value: string) => void) =>
+    source?.options && source.options.length > 0 ? (
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+      >
+        <option value="">Select an option</option>
+        {source.options.map((option, optionIndex) => (
+          <option key={optionIndex} value={option}>
+            {getPipedText(option) || `Option ${optionIndex + 1}`}
+          </option>
+        ))}
+      </select>
+    ) : (
+      <input
+        type="text"
+        placeholder="Value"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+      />
+    )
+
+  const renderOperatorSelect = (operator: ConditionOperator, onChange: (operator: ConditionOperator) => void) => (
+    <select
+      value={operator}
+      onChange={(e) => onChange(e.target.value as ConditionOperator)}
+      className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+    >
+      {(Object.keys(conditionOperatorLabels) as ConditionOperator[]).map((op) => (
+        <option key={op} value={op}>
+          {conditionOperatorLabels[op]}
+        </option>
+      ))}
+    </select>
+  )
+
+  // Display conditions can only depend on earlier questions and jumps can only move forward
+  const renderLogicEditor = (question: Question, index: number) => {
+    const earlierQuestions = survey.questions.slice(0, index)
+    const laterQuestions = survey.questions.slice(index + 1)
+    const conditions = question.displayConditions || []
+    const jumpRules = question.jumpRules || []
+
+    return (
+      <div className="p-3 sm:p-4 bg-gray-50 rounded-md border border-gray-200 space-y-4">
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 flex items-center">
+            <GitBranch className="h-4 w-4 mr-1 text-indigo-500" />
+            Display conditions
+          </h4>
+          <p className="text-xs text-gray-500">Show this question only when all of these match.</p>
+          {conditions.map((condition, conditionIndex) => {
+            const updateCondition = (changes: Partial<typeof condition>) =>
+              updateQuestion(index, {
+                displayConditions: conditions.map((c, i) => (i === conditionIndex ? { ...c, ...changes } : c)),
+              })
+
+            return (
+              <div key={conditionIndex} className="flex flex-col sm:flex-row gap-2 mt-2">
+                <select
+                  value={condition.questionId}
+                  onChange={(e) => updateCondition({ questionId: e.target.value, value: "" })}
+                  className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+                >
+                  {earlierQuestions.map((q) => (
+                    <option key={q.id} value={q.id}>
+                      {getQuestionLabel(q)}
+                    </option>
+                  ))}
+                </select>
+                {renderOperatorSelect(condition.operator, (operator) => updateCondition({ operator }))}
+                {!isPresenceOperator(condition.operator) &&
+                  renderRuleValueInput(
+                    survey.questions.find((q) => q.id === condition.questionId),
+                    condition.value,
+                    (value) => updateCondition({ value }),
+                  )}
+                <button
+                  type="button"
+                  onClick={() =>
+                    updateQuestion(index, { displayConditions: conditions.filter((_, i) => i !== conditionIndex) })
+                  }
+                  className="p-1 text-gray-400 hover:text-red-600 transition-colors self-end sm:self-center"
+                  title="Remove condition"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            )
+          })}
+          {earlierQuestions.length > 0 ? (
+            <button
+              type="button"
+              onClick={() =>
+                updateQuestion(index, {
+                  displayConditions: [
+                    ...conditions,
+                    { questionId: earlierQuestions[earlierQuestions.length - 1].id, operator: "equals", value: "" },
+                  ],
+                })
+              }
+              className="mt-2 inline-flex items-center text-sm font-medium text-indigo-600 hover:text-indigo-500 transition-colors"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add condition
+            </button>
+          ) : (
+            <p className="mt-2 text-xs text-gray-400">Add questions before this one to use display conditions.</p>
+          )}
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 flex items-center">
+            <GitBranch className="h-4 w-4 mr-1 text-indigo-500" />
+            Skip logic
+          </h4>
+          <p className="text-xs text-gray-500">After this question, jump ahead when the answer matches.</p>
+          {jumpRules.map((rule, ruleIndex) => {
+            const updateRule = (changes: Partial<typeof rule>) =>
+              updateQuestion(index, {
+                jumpRules: jumpRules.map((r, i) => (i === ruleIndex ? { ...r, ...changes } : r)),
+              })
+
+            return (
+              <div key={ruleIndex} className="flex flex-col sm:flex-row sm:items-center gap-2 mt-2">
+                <span className="text-sm text-gray-600">If answer</span>
+                {renderOperatorSelect(rule.operator, (operator) => updateRule({ operator }))}
+                {!isPresenceOperator(rule.operator) &&
+                  renderRuleValueInput(question, rule.value, (value) => updateRule({ value }))}
+                <span className="text-sm text-gray-600">go to</span>
+                <select
+                  value={rule.targetQuestionId ?? ""}
+                  onChange={(e) => updateRule({ targetQuestionId: e.target.value || null })}
+                  className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+                >
+                  {laterQuestions.map((q) => (
+                    <option key={q.id} value={q.id}>
+                      {getQuestionLabel(q)}
+                    </option>
+                  ))}
+                  <option value="">End of survey</option>
+                </select>
+                <button
+                  type="button"
+                  onClick={() => updateQuestion(index, { jumpRules: jumpRules.filter((_, i) => i !== ruleIndex) })}
+                  className="p-1 text-gray-400 hover:text-red-600 transition-colors self-end sm:self-center"
+                  title="Remove rule"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            )
+          })}
+          <button
+            type="button"
+            onClick={() =>
+              updateQuestion(index, {
+                jumpRules: [
+                  ...jumpRules,
+                  { operator: "equals", value: "", targetQuestionId: laterQuestions[0]?.id ?? null },
+                ],
+              })
+            }
+            className="mt-2 inline-flex items-center text-sm font-medium text-indigo-600 hover:text-indigo-500 transition-colors"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add rule
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  // Only offered for the question types that have rules; a rule without a message shows the default one
+  const renderValidationEditor = (question: Question, index: number) => {
+    const ruleTypes = getValidationRuleTypes(question.type)
+    if (ruleTypes.length === 0) return null
+
+    const rules = question.validationRules || []
+
+    return (
+      <div className="p-3 sm:p-4 bg-gray-50 rounded-md border border-gray-200">
+        <h4 className="text-sm font-medium text-gray-700 flex items-center">
+          <ShieldCheck className="h-4 w-4 mr-1 text-indigo-500" />
+          Answer validation
+        </h4>
+        <p className="text-xs text-gray-500">Respondents must fix answers that break a rule before moving on.</p>
+        {rules.map((rule, ruleIndex) => {
+          const updateRule = (changes: Partial<ValidationRule>) =>
+            updateQuestion(index, {
+              validationRules: rules.map((r, i) => (i === ruleIndex ? { ...r, ...changes } : r)),
+            })
+          const patternError = rule.type === "pattern" && rule.value !== "" ? getPatternError(rule.value) : null
+
+          return (
+            <div key={ruleIndex} className="mt-2">
+              <div className="flex flex-col sm:flex-row gap-2">
+                <select
+                  value={rule.type}
+                  onChange={(e) => updateRule({ type: e.target.value as ValidationRuleType, value: "" })}
+                  className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+                >
+                  {ruleTypes.map((type) => (
+                    <option key={type} value={type}>
+                      {validationRuleLabels[type]}
+                    </option>
+                  ))}
+                </select>
+                {ruleTakesValue(rule.type) && (
+                  <input
+                    type={rule.type === "pattern" ? "text" : rule.type.endsWith("_date") ? "date" : "number"}
+                    min={rule.type.endsWith("_length") || rule.type.endsWith("_selections") ? 0 : undefined}
+                    placeholder={rule.type === "pattern" ? "Regular expression, e.g. ^[A-Z]{3}$" : "Value"}
+                    value={rule.value}
+                    onChange={(e) => updateRule({ value: e.target.value })}
+                    className="sm:w-48 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+                  />
+                )}
+                <input
+                  type="text"
+                  placeholder="Error message (optional)"
+                  value={rule.message}
+                  onChange={(e) => updateRule({ message: e.target.value })}
+                  className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+                />
+                <button
+                  type="button"
+                  onClick={() =>
+                    updateQuestion(index, { validationRules: rules.filter((_, i) => i !== ruleIndex) })
+                  }
+                  className="p-1 text-gray-400 hover:text-red-600 transition-colors self-end sm:self-center"
+                  title="Remove rule"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+              {patternError && <p className="mt-1 text-xs text-red-600">Invalid pattern: {patternError}</p>}
+            </div>
+          )
+        })}
+        <button
+          type="button"
+          onClick={() =>
+            updateQuestion(index, { validationRules: [...rules, { type: ruleTypes[0], value: "", message: "" }] })
+          }
+          className="mt-2 inline-flex items-center text-sm font-medium text-indigo-600 hover:text-indigo-500 transition-colors"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add validation rule
+        </button>
+      </div>
+    )
+  }
+
   const renderQuestionFields = (question: Question, index: number) => {
     const commonFields = (
       <div className="space-y-3 sm:space-y-4">
@@ -397,14 +809,13 @@ const CreateSurvey = () => {
             type="text"
             placeholder="Enter your question"
             className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
-            value={question.question}
-            onChange={(e) => {
-              const newQuestions = [...survey.questions]
-              newQuestions[index].question = e.target.value
-              setSurvey({ ...survey, questions: newQuestions })
-            }}
+            value={getPipedText(question.question)}
+            onChange={(e) => updateQuestion(index, { question: toStoredText(index, e.target.value) })}
           />
           <div className="flex items-center gap-2 self-end sm:self-auto">
+            {renderPipingPicker(index, (token) =>
+              updateQuestion(index, { question: toStoredText(index, appendToken(getPipedText(question.question), token)) }),
+            )}
             <button
               type="button"
               onClick={() => duplicateQuestion(index)}
@@ -423,17 +834,68 @@ const CreateSurvey = () => {
             </button>
           </div>
         </div>
-        <input
-          type="text"
-          placeholder="Add a description (optional)"
-          className="w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
-          value={question.description || ""}
-          onChange={(e) => {
-            const newQuestions = [...survey.questions]
-            newQuestions[index].description = e.target.value
-            setSurvey({ ...survey, questions: newQuestions })
-          }}
-        />
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            placeholder="Add a description (optional)"
+            className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+            value={getPipedText(question.description || "")}
+            onChange={(e) => updateQuestion(index, { description: toStoredText(index, e.target.value) })}
+          />
+          {renderPipingPicker(index, (token) =>
+            updateQuestion(index, {
+              description: toStoredText(index, appendToken(getPipedText(question.description || ""), token)),
+            }),
+          )}
+        </div>
+        {question.imageUrl ? (
+          <div className="flex items-start gap-3">
+            <img
+              src={getProxiedImageUrl(question.imageUrl)}
+              alt={`Image for question ${index + 1}`}
+              className="h-24 w-40 object-cover rounded-md border border-gray-200"
+            />
+            <div className="flex flex-col gap-2">
+              <label className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+                <ImageIcon className="h-4 w-4 mr-1.5 text-gray-500" />
+                Replace
+                <input
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0]
+                    if (file) updateQuestion(index, { imageUrl: attachImage(file) })
+                    e.target.value = ""
+                  }}
+                />
+              </label>
+              <button
+                type="button"
+                onClick={() => updateQuestion(index, { imageUrl: undefined })}
+                className="inline-flex items-center px-3 py-1.5 rounded-md text-sm text-red-700 bg-red-100 hover:bg-red-200"
+              >
+                <X className="h-4 w-4 mr-1.5" />
+                Remove
+              </button>
+            </div>
+          </div>
+        ) : (
+          <label className="inline-flex items-center text-sm text-gray-600 hover:text-indigo-600 cursor-pointer">
+            <ImageIcon className="h-4 w-4 mr-1.5" />
+            Add image
+            <input
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) updateQuestion(index, { imageUrl: attachImage(file) })
+                e.target.value = ""
+              }}
+            />
+          </label>
+        )}
         <div className="flex items-center gap-2">
           <input
             type="checkbox"
@@ -450,19 +912,35 @@ const CreateSurvey = () => {
             Required
           </label>
         </div>
+        {renderValidationEditor(question, index)}
+        {renderLogicEditor(question, index)}
       </div>
     )
 
     switch (question.type) {
       case "multiple_choice":
       case "checkbox":
+      case "ranking":
         return (
           <div className="space-y-4">
             {commonFields}
+            {question.type === "ranking" ? (
+              <p className="text-xs text-gray-500">
+                Respondents drag these options into their order of preference. They start in the order listed here.
+              </p>
+            ) : (
+              <p className="text-xs text-gray-500">
+                Add a picture to any option to show the choices as picture cards.
+              </p>
+            )}
             <div className="space-y-2">
               {question.options?.map((option, optionIndex) => (
                 <div key={optionIndex} className="flex items-center gap-2">
-                  {question.type === "multiple_choice" ? (
+                  {question.type === "ranking" ? (
+                    <span className="w-4 text-xs font-medium text-gray-500 text-center flex-shrink-0">
+                      {optionIndex + 1}
+                    </span>
+                  ) : question.type === "multiple_choice" ? (
                     <div className="h-4 w-4 rounded-full border border-gray-300 flex-shrink-0" />
                   ) : (
                     <div className="h-4 w-4 rounded border border-gray-300 flex-shrink-0" />
@@ -471,21 +949,61 @@ const CreateSurvey = () => {
                     type="text"
                     placeholder={`Option ${optionIndex + 1}`}
                     className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-                    value={option}
+                    value={getPipedText(option)}
                     onChange={(e) => {
                       const newQuestions = [...survey.questions]
                       if (newQuestions[index].options) {
-                        newQuestions[index].options![optionIndex] = e.target.value
+                        newQuestions[index].options![optionIndex] = toStoredText(index, e.target.value)
                         setSurvey({ ...survey, questions: newQuestions })
                       }
                     }}
                   />
+                  {question.type !== "ranking" && (
+                    <div className="relative flex-shrink-0">
+                      <label
+                        className="block h-9 w-9 rounded-md border border-gray-300 bg-gray-50 hover:border-indigo-400 cursor-pointer overflow-hidden"
+                        title={question.optionImages?.[optionIndex] ? "Replace picture" : "Add picture"}
+                      >
+                        {question.optionImages?.[optionIndex] ? (
+                          <img
+                            src={getProxiedImageUrl(question.optionImages[optionIndex])}
+                            alt={`Picture for option ${optionIndex + 1}`}
+                            className="h-full w-full object-cover"
+                          />
+                        ) : (
+                          <ImageIcon className="h-4 w-4 m-2.5 text-gray-400" />
+                        )}
+                        <input
+                          type="file"
+                          accept="image/*"
+                          className="hidden"
+                          onChange={(e) => {
+                            const file = e.target.files?.[0]
+                            if (file) setOptionImage(index, optionIndex, attachImage(file))
+                            e.target.value = ""
+                          }}
+                        />
+                      </label>
+                      {question.optionImages?.[optionIndex] && (
+                        <button
+                          type="button"
+                          onClick={() => setOptionImage(index, optionIndex, null)}
+                          className="absolute -top-1.5 -right-1.5 p-0.5 rounded-full bg-white border border-gray-300 text-gray-500 hover:text-red-600"
+                          title="Remove picture"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      )}
+                    </div>
+                  )}
                   <button
                     type="button"
                     onClick={() => {
                       const newQuestions = [...survey.questions]
                       if (newQuestions[index].options && newQuestions[index].options!.length > 1) {
                         newQuestions[index].options = question.options?.filter((_, i) => i !== optionIndex)
+                        const optionImages = question.optionImages?.filter((_, i) => i !== optionIndex)
+                        newQuestions[index].optionImages = optionImages?.some(Boolean) ? optionImages : undefined
                         setSurvey({ ...survey, questions: newQuestions })
                       }
                     }}
@@ -692,6 +1210,90 @@ const CreateSurvey = () => {
             </div>
           </div>
         )
+      case "nps":
+        return (
+          <div className="space-y-4">
+            {commonFields}
+            <div className="bg-gray-50 p-4 rounded-md">
+              <p className="text-sm text-gray-600 mb-2">
+                Respondents answer from 0 (not at all likely) to 10 (extremely likely). 9-10 count as promoters, 7-8
+                as passives and 0-6 as detractors in the NPS analytics.
+              </p>
+              <div className="flex gap-1 opacity-50">
+                {NPS_POINTS.map((point) => (
+                  <div
+                    key={point}
+                    className="flex-1 h-8 rounded border border-gray-300 bg-white flex items-center justify-center text-xs text-gray-500"
+                  >
+                    {point}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )
+      case "file_upload": {
+        const fileUpload = question.fileUpload ?? defaultFileUploadSettings
+        const updateFileUpload = (changes: Partial<typeof fileUpload>) =>
+          updateQuestion(index, { fileUpload: { ...fileUpload, ...changes } })
+
+        return (
+          <div className="space-y-4">
+            {commonFields}
+            <div className="bg-gray-50 p-4 rounded-md space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Accepted file types</label>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                  {fileTypePresets.map((preset) => {
+                    const isChecked = preset.types.every((type) => fileUpload.allowedTypes.includes(type))
+
+                    return (
+                      <label key={preset.label} className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={isChecked}
+                          onChange={(e) =>
+                            updateFileUpload({
+                              allowedTypes: e.target.checked
+                                ? [...new Set([...fileUpload.allowedTypes, ...preset.types])]
+                                : fileUpload.allowedTypes.filter((type) => !preset.types.includes(type)),
+                            })
+                          }
+                          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        {preset.label}
+                      </label>
+                    )
+                  })}
+                </div>
+                <p className="mt-2 text-xs text-gray-500">Leave all unchecked to accept any file type.</p>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Maximum size per file (MB)</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={fileUpload.maxSizeMb}
+                    onChange={(e) => updateFileUpload({ maxSizeMb: Math.max(1, Number.parseInt(e.target.value) || 1) })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Maximum number of files</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={fileUpload.maxFiles}
+                    onChange={(e) => updateFileUpload({ maxFiles: Math.max(1, Number.parseInt(e.target.value) || 1) })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                </div>
+              </div>
+            </div>
+          </div>
+        )
+      }
       case "time":
         return (
           <div className="space-y-4">
@@ -706,6 +1308,72 @@ const CreateSurvey = () => {
           </div>
         )
 
+      case "matrix": {
+        const matrix = question.matrix ?? { rows: [""], columns: [""], multiplePerRow: false }
+        const updateMatrix = (changes: Partial<typeof matrix>) =>
+          updateQuestion(index, { matrix: { ...matrix, ...changes } })
+
+        // Rows and columns are edited the same way; each needs at least one entry
+        const renderMatrixList = (key: "rows" | "columns", label: string, itemName: string) => (
+          <div>
+            <label className="block text-sm font-medium text-gray-700">{label}</label>
+            <div className="mt-1 space-y-2">
+              {matrix[key].map((item, itemIndex) => (
+                <div key={itemIndex} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={item}
+                    placeholder={`${itemName} ${itemIndex + 1}`}
+                    onChange={(e) =>
+                      updateMatrix({ [key]: matrix[key].map((value, i) => (i === itemIndex ? e.target.value : value)) })
+                    }
+                    className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => updateMatrix({ [key]: matrix[key].filter((_, i) => i !== itemIndex) })}
+                    className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                    disabled={matrix[key].length <= 1}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => updateMatrix({ [key]: [...matrix[key], ""] })}
+                className="inline-flex items-center px-3 py-1 text-sm font-medium text-indigo-600 hover:text-indigo-500 transition-colors"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add {itemName}
+              </button>
+            </div>
+          </div>
+        )
+
+        return (
+          <div className="space-y-4">
+            {commonFields}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {renderMatrixList("rows", "Rows (statements)", "Row")}
+              {renderMatrixList("columns", "Columns (answer choices)", "Column")}
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id={`multiple-per-row-${question.id}`}
+                checked={matrix.multiplePerRow}
+                onChange={(e) => updateMatrix({ multiplePerRow: e.target.checked })}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              <label htmlFor={`multiple-per-row-${question.id}`} className="text-sm text-gray-700">
+                Allow several answers per row
+              </label>
+            </div>
+          </div>
+        )
+      }
+
       default:
         return null
     }
@@ -723,16 +1391,10 @@ const CreateSurvey = () => {
     },
     {
       id: "template-2",
-      type: "linear_scale" as QuestionType,
+      type: "nps" as QuestionType,
       question: "How likely are you to recommend our product to a friend?",
       required: true,
       description: "0 = Not likely at all, 10 = Extremely likely",
-      linearScale: {
-        min: 0,
-        max: 10,
-        minLabel: "Not likely at all",
-        maxLabel: "Extremely likely",
-      },
     },
     {
       id: "template-3",
@@ -757,26 +1419,30 @@ const CreateSurvey = () => {
       id: generateId(),
     }
 
-    const newQuestions = [...survey.questions, newQuestion]
-    setSurvey({
-      ...survey,
-      questions: newQuestions,
-    })
-
-    setActiveQuestionIndex(newQuestions.length - 1)
+    insertQuestion(newQuestion)
     setShowQuestionLibrary(false)
   }
 
+  // A newly picked image replaces the one already saved on the survey
+  const displayedCoverImage = coverImagePreview || existingCoverImageUrl
+
   // Preview mode rendering
   const renderPreview = () => {
+    // Respondents see each section as its own page, introduced by its title and intro text
+    const sectionStarts = new Map(
+      hasSectionPages(survey.sections)
+        ? sectionGroups.flatMap((group) => (group.questions.length > 0 ? [[group.questions[0].id, group.section] as const] : []))
+        : [],
+    )
+
     return (
       <div className="bg-white rounded-xl shadow-lg overflow-hidden">
         {/* Survey header with cover image */}
         <div className="relative">
-          {coverImagePreview ? (
+          {displayedCoverImage ? (
             <div className="h-48 bg-gray-200 relative">
               <img
-                src={coverImagePreview || "/placeholder.svg"}
+                src={displayedCoverImage}
                 alt="Survey cover"
                 className="w-full h-full object-cover"
               />
@@ -786,7 +1452,7 @@ const CreateSurvey = () => {
             <div className="h-32 bg-gradient-to-r from-indigo-500 to-purple-600"></div>
           )}
 
-          <div className={`p-6 ${coverImagePreview ? "relative -mt-16 bg-white rounded-t-xl mx-4" : ""}`}>
+          <div className={`p-6 ${displayedCoverImage ? "relative -mt-16 bg-white rounded-t-xl mx-4" : ""}`}>
             <h1 className="text-2xl font-bold text-gray-900">{survey.title || "Untitled Survey"}</h1>
             <p className="mt-2 text-gray-600">{survey.description || "No description provided."}</p>
           </div>
@@ -801,100 +1467,230 @@ const CreateSurvey = () => {
               </p>
             </div>
           ) : (
-            survey.questions.map((question, index) => (
-              <div key={question.id} className="bg-gray-50 p-6 rounded-lg border border-gray-200">
-                <div className="flex items-start gap-3 mb-4">
-                  <span className="flex items-center justify-center bg-indigo-100 text-indigo-800 rounded-full w-8 h-8 text-sm font-medium">
-                    {index + 1}
-                  </span>
-                  <div>
-                    <h3 className="text-lg font-medium text-gray-900">
-                      {question.question || "Untitled Question"}
-                      {question.required && <span className="text-red-500 ml-1">*</span>}
-                    </h3>
-                    {question.description && <p className="text-gray-600 text-sm mt-1">{question.description}</p>}
-                  </div>
-                </div>
-
-                {/* Render different question types */}
-                <div className="mt-4 pl-11">
-                  {question.type === "multiple_choice" && question.options && (
-                    <div className="space-y-2">
-                      {question.options.map((option, i) => (
-                        <div key={i} className="flex items-center">
-                          <div className="w-5 h-5 rounded-full border-2 border-gray-300 mr-3"></div>
-                          <span>{option || `Option ${i + 1}`}</span>
-                        </div>
-                      ))}
+            survey.questions.map((question, index) => {
+              const section = sectionStarts.get(question.id)
+
+              return (
+                <React.Fragment key={question.id}>
+                  {section && (
+                    <div className="pb-3 border-b border-gray-200">
+                      <h2 className="text-xl font-semibold text-gray-900">{section.title || "Untitled section"}</h2>
+                      {section.description && <p className="mt-1 text-gray-600 text-sm">{section.description}</p>}
                     </div>
                   )}
-
-                  {question.type === "checkbox" && question.options && (
-                    <div className="space-y-2">
-                      {question.options.map((option, i) => (
-                        <div key={i} className="flex items-center">
-                          <div className="w-5 h-5 rounded border-2 border-gray-300 mr-3"></div>
-                          <span>{option || `Option ${i + 1}`}</span>
-                        </div>
-                      ))}
+                  <div className="bg-gray-50 p-6 rounded-lg border border-gray-200">
+                    <div className="flex items-start gap-3 mb-4">
+                      <span className="flex items-center justify-center bg-indigo-100 text-indigo-800 rounded-full w-8 h-8 text-sm font-medium">
+                        {index + 1}
+                      </span>
+                      <div>
+                        <h3 className="text-lg font-medium text-gray-900">
+                          {getPipedText(question.question) || "Untitled Question"}
+                          {question.required && <span className="text-red-500 ml-1">*</span>}
+                        </h3>
+                        {question.description && (
+                          <p className="text-gray-600 text-sm mt-1">{getPipedText(question.description)}</p>
+                        )}
+                      </div>
                     </div>
-                  )}
 
-                  {question.type === "open_ended" && (
-                    <div className="border border-gray-300 rounded-md p-3 bg-white h-24"></div>
-                  )}
-
-                  {question.type === "closed_ended" && (
-                    <div className="border border-gray-300 rounded-md p-3 bg-white h-10"></div>
-                  )}
+                    {question.imageUrl && (
+                      <img
+                        src={getProxiedImageUrl(question.imageUrl)}
+                        alt={`Image for ${getPipedText(question.question)}`}
+                        className="mt-4 ml-11 max-h-64 rounded-lg object-contain"
+                      />
+                    )}
 
-                  {question.type === "likert_scale" && question.likertScale && (
-                    <div className="space-y-2">
-                      {question.likertScale.labels.map((label, i) => (
-                        <div key={i} className="flex items-center">
-                          <div className="w-5 h-5 rounded-full border-2 border-gray-300 mr-3"></div>
-                          <span>{label}</span>
+                    {/* Render different question types */}
+                    <div className="mt-4 pl-11">
+                      {isChoiceQuestion(question.type) && question.options && question.optionImages && (
+                        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                          {question.options.map((option, i) => (
+                            <div key={i} className="border-2 border-gray-200 rounded-lg overflow-hidden bg-white">
+                              {question.optionImages?.[i] ? (
+                                <img
+                                  src={getProxiedImageUrl(question.optionImages[i])}
+                                  alt={getPipedText(option) || `Option ${i + 1}`}
+                                  className="h-28 w-full object-cover"
+                                />
+                              ) : (
+                                <div className="h-28 bg-gray-100 flex items-center justify-center">
+                                  <ImageIcon className="h-6 w-6 text-gray-300" />
+                                </div>
+                              )}
+                              <div className="flex items-center p-2 text-sm">
+                                <div
+                                  className={`w-4 h-4 border-2 border-gray-300 mr-2 flex-shrink-0 ${
+                                    question.type === "checkbox" ? "rounded" : "rounded-full"
+                                  }`}
+                                ></div>
+                                <span>{getPipedText(option) || `Option ${i + 1}`}</span>
+                              </div>
+                            </div>
+                          ))}
                         </div>
-                      ))}
-                    </div>
-                  )}
+                      )}
+
+                      {question.type === "multiple_choice" && question.options && !question.optionImages && (
+                        <div className="space-y-2">
+                          {question.options.map((option, i) => (
+                            <div key={i} className="flex items-center">
+                              <div className="w-5 h-5 rounded-full border-2 border-gray-300 mr-3"></div>
+                              <span>{getPipedText(option) || `Option ${i + 1}`}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
+                      {question.type === "checkbox" && question.options && !question.optionImages && (
+                        <div className="space-y-2">
+                          {question.options.map((option, i) => (
+                            <div key={i} className="flex items-center">
+                              <div className="w-5 h-5 rounded border-2 border-gray-300 mr-3"></div>
+                              <span>{getPipedText(option) || `Option ${i + 1}`}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
+                      {question.type === "ranking" && question.options && (
+                        <div className="space-y-2">
+                          {question.options.map((option, i) => (
+                            <div
+                              key={i}
+                              className="flex items-center border border-gray-300 rounded-md bg-white px-3 py-2"
+                            >
+                              <span className="w-6 text-sm font-medium text-gray-500">{i + 1}</span>
+                              <GripVertical className="h-4 w-4 text-gray-400 mr-2" />
+                              <span>{getPipedText(option) || `Option ${i + 1}`}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
+                      {question.type === "open_ended" && (
+                        <div className="border border-gray-300 rounded-md p-3 bg-white h-24"></div>
+                      )}
+
+                      {question.type === "closed_ended" && (
+                        <div className="border border-gray-300 rounded-md p-3 bg-white h-10"></div>
+                      )}
+
+                      {question.type === "likert_scale" && question.likertScale && (
+                        <div className="space-y-2">
+                          {question.likertScale.labels.map((label, i) => (
+                            <div key={i} className="flex items-center">
+                              <div className="w-5 h-5 rounded-full border-2 border-gray-300 mr-3"></div>
+                              <span>{label}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
+                      {question.type === "linear_scale" && question.linearScale && (
+                        <div className="mt-2">
+                          <div className="flex justify-between items-center">
+                            <span className="text-sm text-gray-600">{question.linearScale.minLabel}</span>
+                            <div className="flex-1 mx-4 flex justify-between">
+                              {Array.from({ length: question.linearScale.max - question.linearScale.min + 1 }).map(
+                                (_, i) => (
+                                  <div key={i} className="flex flex-col items-center">
+                                    <div className="w-8 h-8 rounded-full bg-gray-200 flex items-center justify-center text-sm">
+                                      {question.linearScale.min + i}
+                                    </div>
+                                  </div>
+                                ),
+                              )}
+                            </div>
+                            <span className="text-sm text-gray-600">{question.linearScale.maxLabel}</span>
+                          </div>
+                        </div>
+                      )}
 
-                  {question.type === "linear_scale" && question.linearScale && (
-                    <div className="mt-2">
-                      <div className="flex justify-between items-center">
-                        <span className="text-sm text-gray-600">{question.linearScale.minLabel}</span>
-                        <div className="flex-1 mx-4 flex justify-between">
-                          {Array.from({ length: question.linearScale.max - question.linearScale.min + 1 }).map(
-                            (_, i) => (
-                              <div key={i} className="flex flex-col items-center">
-                                <div className="w-8 h-8 rounded-full bg-gray-200 flex items-center justify-center text-sm">
-                                  {question.linearScale.min + i}
-                                </div>
+                      {question.type === "nps" && (
+                        <div className="mt-2">
+                          <div className="flex gap-1">
+                            {NPS_POINTS.map((point) => (
+                              <div
+                                key={point}
+                                className={`flex-1 h-10 rounded-md border-2 bg-white flex items-center justify-center text-sm font-medium ${
+                                  npsPointColors[getNpsCategory(Number(point))]
+                                }`}
+                              >
+                                {point}
                               </div>
-                            ),
-                          )}
+                            ))}
+                          </div>
+                          <div className="flex justify-between text-sm text-gray-600 mt-2">
+                            <span>Not at all likely</span>
+                            <span>Extremely likely</span>
+                          </div>
                         </div>
-                        <span className="text-sm text-gray-600">{question.linearScale.maxLabel}</span>
-                      </div>
-                    </div>
-                  )}
+                      )}
+
+                      {question.type === "file_upload" && (
+                        <div className="border-2 border-dashed border-gray-300 rounded-md p-6 bg-white flex flex-col items-center text-center">
+                          <UploadCloud className="h-8 w-8 text-gray-400 mb-2" />
+                          <span className="text-gray-500">Drag and drop files here, or click to browse</span>
+                          <span className="text-xs text-gray-400 mt-1">
+                            {describeFileTypes((question.fileUpload ?? defaultFileUploadSettings).allowedTypes)} · up to{" "}
+                            {(question.fileUpload ?? defaultFileUploadSettings).maxSizeMb} MB each
+                          </span>
+                        </div>
+                      )}
 
-                  {question.type === "date" && (
-                    <div className="border border-gray-300 rounded-md p-3 bg-white h-10 flex items-center">
-                      <Calendar className="h-4 w-4 text-gray-400 mr-2" />
-                      <span className="text-gray-400">Select a date</span>
-                    </div>
-                  )}
+                      {question.type === "date" && (
+                        <div className="border border-gray-300 rounded-md p-3 bg-white h-10 flex items-center">
+                          <Calendar className="h-4 w-4 text-gray-400 mr-2" />
+                          <span className="text-gray-400">Select a date</span>
+                        </div>
+                      )}
 
-                  {question.type === "time" && (
-                    <div className="border border-gray-300 rounded-md p-3 bg-white h-10 flex items-center">
-                      <Clock className="h-4 w-4 text-gray-400 mr-2" />
-                      <span className="text-gray-400">Select a time</span>
+                      {question.type === "time" && (
+                        <div className="border border-gray-300 rounded-md p-3 bg-white h-10 flex items-center">
+                          <Clock className="h-4 w-4 text-gray-400 mr-2" />
+                          <span className="text-gray-400">Select a time</span>
+                        </div>
+                      )}
+
+                      {question.type === "matrix" && question.matrix && (
+                        <div className="overflow-x-auto">
+                          <table className="min-w-full text-sm">
+                            <thead>
+                              <tr>
+                                <th />
+                                {question.matrix.columns.map((column, i) => (
+                                  <th key={i} className="px-2 pb-2 font-medium text-gray-600 text-center">
+                                    {column || `Column ${i + 1}`}
+                                  </th>
+                                ))}
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {question.matrix.rows.map((row, rowIndex) => (
+                                <tr key={rowIndex} className="border-t border-gray-200">
+                                  <td className="py-2 pr-4 text-gray-700">{row || `Row ${rowIndex + 1}`}</td>
+                                  {question.matrix!.columns.map((_, i) => (
+                                    <td key={i} className="px-2 py-2 text-center">
+                                      <div
+                                        className={`w-5 h-5 border-2 border-gray-300 mx-auto ${
+                                          question.matrix!.multiplePerRow ? "rounded" : "rounded-full"
+                                        }`}
+                                      ></div>
+                                    </td>
+                                  ))}
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      )}
                     </div>
-                  )}
-                </div>
-              </div>
-            ))
+                  </div>
+                </React.Fragment>
+              )
+            })
           )}
         </div>
 
@@ -911,6 +1707,14 @@ const CreateSurvey = () => {
     )
   }
 
+  if (isLoadingSurvey) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-8 w-8 text-indigo-600 animate-spin" />
+      </div>
+    )
+  }
+
   return (
     <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-8 min-h-screen">
       <AnimatePresence>
@@ -949,7 +1753,7 @@ const CreateSurvey = () => {
             <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-6 sm:mb-8 gap-4">
               <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 flex items-center">
                 <Sparkles className="h-6 w-6 text-indigo-500 mr-2" />
-                Create New Survey
+                {isEditing ? "Edit Survey" : "Create New Survey"}
               </h1>
               <div className="flex items-center gap-2 sm:gap-4">
                 <button
@@ -979,7 +1783,7 @@ const CreateSurvey = () => {
               </div>
             </div>
 
-            {!isAuthenticated && (
+            {!canSave && !(isEditing && surveyCreatedBy === null) && (
               <motion.div
                 initial={{ opacity: 0, y: 10 }}
                 animate={{ opacity: 1, y: 0 }}
@@ -987,12 +1791,7 @@ const CreateSurvey = () => {
               >
                 <div className="flex">
                   <AlertTriangle className="h-5 w-5 text-yellow-400 mr-3 flex-shrink-0" />
-                  <p className="text-yellow-700">
-                    You need to be logged in as an admin to create surveys.{" "}
-                    <a href="/login" className="font-medium underline hover:text-yellow-800">
-                      Log in now
-                    </a>
-                  </p>
+                  <p className="text-yellow-700">{permissionMessage}.</p>
                 </div>
               </motion.div>
             )}
@@ -1005,7 +1804,9 @@ const CreateSurvey = () => {
               >
                 <div className="flex">
                   <CheckCircle className="h-5 w-5 text-green-500 mr-3 flex-shrink-0" />
-                  <p className="text-green-700">Survey created successfully! Redirecting to surveys list...</p>
+                  <p className="text-green-700">
+                    Survey {isEditing ? "updated" : "created"} successfully! Redirecting to surveys list...
+                  </p>
                 </div>
               </motion.div>
             )}
@@ -1066,9 +1867,16 @@ const CreateSurvey = () => {
                         }
                         className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
                       />
-                      <label htmlFor="shuffleQuestions" className="text-sm text-gray-700">
-                        Shuffle question order
-                      </label>
+                      <div>
+                        <label htmlFor="shuffleQuestions" className="text-sm text-gray-700">
+                          Shuffle question order
+                        </label>
+                        {survey.settings.shuffleQuestions && hasBranchingLogic(survey.questions) && (
+                          <p className="text-xs text-amber-600">
+                            Not applied: display conditions and skip logic need the questions in order.
+                          </p>
+                        )}
+                      </div>
                     </div>
                     <div className="flex items-center gap-4">
                       <input
@@ -1104,12 +1912,81 @@ const CreateSurvey = () => {
                         Allow response review
                       </label>
                     </div>
+                    <div className="flex items-center gap-4">
+                      <input
+                        type="checkbox"
+                        id="onePerRespondent"
+                        checked={survey.settings.onePerRespondent}
+                        onChange={(e) =>
+                          setSurvey({
+                            ...survey,
+                            settings: { ...survey.settings, onePerRespondent: e.target.checked },
+                          })
+                        }
+                        className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      <label htmlFor="onePerRespondent" className="text-sm text-gray-700">
+                        Limit to one response per person
+                      </label>
+                    </div>
+                  </div>
+
+                  <div className="mt-6">
+                    <h3 className="text-sm font-medium text-gray-700 mb-1">Availability</h3>
+                    <p className="text-xs text-gray-500 mb-3">
+                      {savedStatus
+                        ? `Currently ${surveyStatusLabels[savedStatus].toLowerCase()}. `
+                        : ""}
+                      Leave these empty to accept responses as soon as the survey is published, until it is closed by hand.
+                    </p>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div>
+                        <label htmlFor="opensAt" className="block text-xs text-gray-600 mb-1">
+                          Opens at
+                        </label>
+                        <input
+                          type="datetime-local"
+                          id="opensAt"
+                          value={toDateTimeLocal(survey.schedule.opensAt)}
+                          onChange={(e) => updateSchedule({ opensAt: fromDateTimeLocal(e.target.value) })}
+                          className="block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+                        />
+                      </div>
+                      <div>
+                        <label htmlFor="closesAt" className="block text-xs text-gray-600 mb-1">
+                          Closes at
+                        </label>
+                        <input
+                          type="datetime-local"
+                          id="closesAt"
+                          value={toDateTimeLocal(survey.schedule.closesAt)}
+                          onChange={(e) => updateSchedule({ closesAt: fromDateTimeLocal(e.target.value) })}
+                          className="block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+                        />
+                      </div>
+                      <div>
+                        <label htmlFor="maxResponses" className="block text-xs text-gray-600 mb-1">
+                          Close after this many responses
+                        </label>
+                        <input
+                          type="number"
+                          id="maxResponses"
+                          min={1}
+                          placeholder="No limit"
+                          value={survey.schedule.maxResponses ?? ""}
+                          onChange={(e) =>
+                            updateSchedule({ maxResponses: e.target.value === "" ? null : Number(e.target.value) })
+                          }
+                          className="block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+                        />
+                      </div>
+                    </div>
                   </div>
 
                   <div className="mt-4">
                     <label className="block text-sm font-medium text-gray-700 mb-1">Theme</label>
                     <div className="grid grid-cols-4 gap-3">
-                      {["default", "modern", "minimal", "colorful"].map((theme) => (
+                      {surveyThemes.map((theme) => (
                         <div
                           key={theme}
                           onClick={() => setSurvey({ ...survey, settings: { ...survey.settings, theme } })}
@@ -1199,7 +2076,7 @@ const CreateSurvey = () => {
                     className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
                   >
                     <ImageIcon className="h-5 w-5 mr-2 text-gray-500" />
-                    {coverImage ? "Change Image" : "Upload Image"}
+                    {displayedCoverImage ? "Change Image" : "Upload Image"}
                   </button>
                   {coverImage && (
                     <button
@@ -1216,10 +2093,10 @@ const CreateSurvey = () => {
                     </button>
                   )}
                 </div>
-                {coverImagePreview && (
+                {displayedCoverImage && (
                   <div className="mt-3 relative">
                     <img
-                      src={coverImagePreview || "/placeholder.svg"}
+                      src={displayedCoverImage}
                       alt="Cover preview"
                       className="h-32 w-full object-cover rounded-md"
                     />
@@ -1329,75 +2206,135 @@ const CreateSurvey = () => {
                   ))}
                 </div>
 
-                <DragDropContext
-                  onDragEnd={(result) => {
-                    if (!result.destination) return
-                    const items = Array.from(survey.questions)
-                    const [reorderedItem] = items.splice(result.source.index, 1)
-                    items.splice(result.destination.index, 0, reorderedItem)
-                    setSurvey({ ...survey, questions: items })
-
-                    // Update active question index if it was moved
-                    if (activeQuestionIndex === result.source.index) {
-                      setActiveQuestionIndex(result.destination.index)
-                    }
-                  }}
-                >
-                  <Droppable droppableId="questions">
-                    {(provided) => (
-                      <div {...provided.droppableProps} ref={provided.innerRef} className="space-y-4">
-                        {survey.questions.map((question, questionIndex) => (
-                          <Draggable key={question.id} draggableId={question.id} index={questionIndex}>
-                            {(provided) => (
-                              <div
-                                ref={provided.innerRef}
-                                {...provided.draggableProps}
-                                {...provided.dragHandleProps}
-                                className={`bg-white p-6 rounded-lg border ${
-                                  activeQuestionIndex === questionIndex
-                                    ? "border-indigo-500 ring-2 ring-indigo-200"
-                                    : "border-gray-200 hover:border-indigo-300"
-                                } transition-colors`}
-                                onClick={() => setActiveQuestionIndex(questionIndex)}
-                              >
-                                <div className="flex items-center gap-2 mb-4">
-                                  <GripVertical className="h-5 w-5 text-gray-400" />
-                                  <span className="flex items-center justify-center bg-indigo-100 text-indigo-800 rounded-full w-6 h-6 text-xs font-medium">
-                                    {questionIndex + 1}
-                                  </span>
-                                  <span className="px-2 py-1 bg-indigo-100 text-indigo-800 text-xs font-medium rounded-full">
-                                    {questionTypeInfo[question.type].name}
-                                  </span>
-                                </div>
-                                {renderQuestionFields(question, questionIndex)}
-                              </div>
-                            )}
-                          </Draggable>
-                        ))}
-                        {provided.placeholder}
+                <DragDropContext onDragEnd={handleDragEnd}>
+                  {sectionGroups.map((group, sectionIndex) => (
+                    <div key={group.section.id} className="space-y-4">
+                      <div className="p-4 bg-indigo-50 border border-indigo-100 rounded-lg space-y-2">
+                        <div className="flex items-center gap-2">
+                          <Layers className="h-4 w-4 text-indigo-500" />
+                          <span className="text-xs font-medium text-indigo-700 uppercase tracking-wide">
+                            Section {sectionIndex + 1} of {sectionGroups.length}
+                          </span>
+                          {sectionGroups.length > 1 && (
+                            <button
+                              type="button"
+                              onClick={() => removeSection(sectionIndex)}
+                              className="ml-auto p-1 text-gray-500 hover:text-red-600 transition-colors"
+                              title="Remove section (its questions move to the neighbouring section)"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          )}
+                        </div>
+                        <input
+                          type="text"
+                          placeholder="Section title (optional)"
+                          className="w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm font-medium"
+                          value={group.section.title}
+                          onChange={(e) => updateSection(group.section.id, { title: e.target.value })}
+                        />
+                        <textarea
+                          placeholder="Intro text shown at the top of this section (optional)"
+                          rows={2}
+                          className="w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+                          value={group.section.description}
+                          onChange={(e) => updateSection(group.section.id, { description: e.target.value })}
+                        />
                       </div>
-                    )}
-                  </Droppable>
+
+                      <Droppable droppableId={group.section.id}>
+                        {(provided, snapshot) => (
+                          <div
+                            {...provided.droppableProps}
+                            ref={provided.innerRef}
+                            className={`space-y-4 min-h-[3rem] rounded-lg transition-colors ${
+                              snapshot.isDraggingOver ? "bg-indigo-50" : ""
+                            }`}
+                          >
+                            {group.questions.length === 0 && !snapshot.isDraggingOver && (
+                              <p className="py-4 text-center text-sm text-gray-400 border-2 border-dashed border-gray-200 rounded-lg">
+                                Drag questions here, or select a question in this section before adding one
+                              </p>
+                            )}
+                            {group.questions.map((question, positionInSection) => {
+                              const questionIndex = survey.questions.indexOf(question)
+
+                              return (
+                                <Draggable key={question.id} draggableId={question.id} index={positionInSection}>
+                                  {(provided) => (
+                                    <div
+                                      ref={provided.innerRef}
+                                      {...provided.draggableProps}
+                                      {...provided.dragHandleProps}
+                                      className={`bg-white p-6 rounded-lg border ${
+                                        activeQuestionIndex === questionIndex
+                                          ? "border-indigo-500 ring-2 ring-indigo-200"
+                                          : "border-gray-200 hover:border-indigo-300"
+                                      } transition-colors`}
+                                      onClick={() => setActiveQuestionIndex(questionIndex)}
+                                    >
+                                      <div className="flex items-center gap-2 mb-4">
+                                        <GripVertical className="h-5 w-5 text-gray-400" />
+                                        <span className="flex items-center justify-center bg-indigo-100 text-indigo-800 rounded-full w-6 h-6 text-xs font-medium">
+                                          {questionIndex + 1}
+                                        </span>
+                                        <span className="px-2 py-1 bg-indigo-100 text-indigo-800 text-xs font-medium rounded-full">
+                                          {questionTypeInfo[question.type].name}
+                                        </span>
+                                      </div>
+                                      {renderQuestionFields(question, questionIndex)}
+                                    </div>
+                                  )}
+                                </Draggable>
+                              )
+                            })}
+                            {provided.placeholder}
+                          </div>
+                        )}
+                      </Droppable>
+                    </div>
+                  ))}
                 </DragDropContext>
+
+                <button
+                  type="button"
+                  onClick={addSection}
+                  className="w-full inline-flex items-center justify-center px-3 py-2 border-2 border-dashed border-gray-300 text-sm font-medium rounded-lg text-gray-600 hover:border-indigo-300 hover:text-indigo-600 transition-colors"
+                >
+                  <Layers className="h-4 w-4 mr-1.5" />
+                  Add Section
+                </button>
               </div>
 
-              <div className="flex justify-end pt-4 sm:pt-6">
+              <div className="flex justify-end gap-3 pt-4 sm:pt-6">
+                {canSaveDraft && (
+                  <button
+                    type="button"
+                    onClick={(e) => handleSubmit(e, "draft")}
+                    disabled={isSubmitting || isLoadingSurvey || !canSave}
+                    className={`inline-flex items-center px-4 sm:px-6 py-2 sm:py-3 border border-gray-300 text-sm sm:text-base font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors ${
+                      isSubmitting || isLoadingSurvey || !canSave ? "opacity-70 cursor-not-allowed" : ""
+                    }`}
+                  >
+                    Save as Draft
+                  </button>
+                )}
                 <button
                   type="submit"
-                  disabled={isSubmitting || !isAuthenticated}
+                  disabled={isSubmitting || isLoadingSurvey || !canSave}
                   className={`inline-flex items-center px-4 sm:px-6 py-2 sm:py-3 border border-transparent text-sm sm:text-base font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 shadow-lg transition-colors ${
-                    isSubmitting || !isAuthenticated ? "opacity-70 cursor-not-allowed" : ""
+                    isSubmitting || isLoadingSurvey || !canSave ? "opacity-70 cursor-not-allowed" : ""
                   }`}
                 >
                   {isSubmitting ? (
                     <>
                       <Loader2 className="h-4 w-4 sm:h-5 sm:w-5 mr-2 animate-spin" />
-                      Creating...
+                      {isEditing ? "Saving..." : "Creating..."}
                     </>
                   ) : (
                     <>
                       <Save className="h-4 w-4 sm:h-5 sm:w-5 mr-2" />
-                      Create Survey
+                      {canSaveDraft ? "Publish Survey" : "Save Changes"}
                     </>
                   )}
                 </button>
@@ -2,9 +2,10 @@
 
 import type React from "react"
 import { useState } from "react"
-import { useNavigate, useLocation } from "react-router-dom"
+import { Link, useNavigate, useLocation } from "react-router-dom"
 import { LogIn, AlertCircle, CheckCircle2, LineChart } from "lucide-react"
 import { useAuth } from "../context/AuthContext"
+import { ApiError, AuthApi } from "../services/api-service"
 
 const Login = () => {
   const [email, setEmail] = useState("")
@@ -16,7 +17,7 @@ const Login = () => {
   const { login } = useAuth()
 
   const from = location.state?.from?.pathname || "/surveys"
-  const API_URL = "/api"
+  const sessionExpired = Boolean(location.state?.sessionExpired)
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -24,36 +25,23 @@ const Login = () => {
     setIsLoading(true)
 
     try {
-      // Using the correct property names (Email and Password with uppercase first letters)
-      const response = await fetch(`${API_URL}/auth/login`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          Email: email,
-          Password: password,
-        }),
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.message || "Invalid email or password")
-      }
-
-      const data = await response.json()
+      const data = await AuthApi.login({ email, password })
 
       // Use the auth context to login
       login(data.token, {
         id: data.id,
         username: data.username,
         email: data.email,
-        roles: data.roles,
-      })
+        profile: data.profile ?? undefined,
+      }, data.refreshToken)
 
       navigate(from, { replace: true })
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Invalid email or password")
+      if (err instanceof ApiError && err.isUnauthorized) {
+        setError("Invalid email or password")
+      } else {
+        setError(err instanceof Error ? err.message : "Invalid email or password")
+      }
     } finally {
       setIsLoading(false)
     }
@@ -69,10 +57,19 @@ const Login = () => {
               <LineChart className="h-12 w-12 text-white absolute -bottom-2 -right-2 transform group-hover:scale-110 transition-transform duration-500" />
             </div>
           </div>
-          <h2 className="mt-6 text-3xl sm:text-4xl font-extrabold text-white">Admin Login</h2>
-          <p className="mt-2 text-sm text-indigo-100">Sign in to access the admin dashboard</p>
+          <h2 className="mt-6 text-3xl sm:text-4xl font-extrabold text-white">Sign In</h2>
+          <p className="mt-2 text-sm text-indigo-100">Sign in to take surveys and manage your account</p>
         </div>
 
+        {sessionExpired && !error && (
+          <div className="bg-amber-400/10 border-l-4 border-amber-400 p-4 rounded-lg backdrop-blur-sm">
+            <div className="flex items-center">
+              <AlertCircle className="h-5 w-5 text-amber-400 mr-2 flex-shrink-0" />
+              <p className="text-sm text-amber-100">Your session has expired. Please sign in again.</p>
+            </div>
+          </div>
+        )}
+
         {error && (
           <div className="bg-red-400/10 border-l-4 border-red-400 p-4 rounded-lg backdrop-blur-sm">
             <div className="flex items-center">
@@ -94,7 +91,7 @@ const Login = () => {
                 type="email"
                 required
                 className="appearance-none rounded-lg relative block w-full px-3 py-2 bg-white/10 border border-white/20 placeholder-indigo-200 text-white focus:outline-none focus:ring-2 focus:ring-pink-500 focus:border-transparent backdrop-blur-sm transition-all duration-300"
-                placeholder="Enter your admin email"
+                placeholder="Enter your email"
                 value={email}
                 onChange={(e) => setEmail(e.target.value)}
               />
@@ -135,13 +132,12 @@ const Login = () => {
             </button>
           </div>
 
-          <div className="text-center">
-            <p className="text-xs text-indigo-100">
-              Use an email containing "admin" to access admin features
-              <br />
-              (e.g., admin@example.com)
-            </p>
-          </div>
+          <p className="text-center text-sm text-indigo-100">
+            Don't have an account?{" "}
+            <Link to="/register" state={location.state} className="font-medium text-white underline hover:text-pink-200">
+              Create one
+            </Link>
+          </p>
         </form>
       </div>
     </div>
@@ -1,18 +1,148 @@
 import React, { useState } from 'react';
-import { Link } from 'react-router-dom';
-import { UserPlus } from 'lucide-react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { AlertCircle, Check, UserPlus, X } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { ApiError, AuthApi } from '../services/api-service';
+import { ageBands, type UserProfile } from '../types/user';
+
+type FormField = 'name' | 'email' | 'password' | 'confirmPassword';
+type FieldErrors = Partial<Record<FormField, string>>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Mirrors the server's password policy so most problems are caught before submitting
+const passwordRules = [
+  { label: 'At least 8 characters', test: (password: string) => password.length >= 8 },
+  { label: 'An uppercase letter', test: (password: string) => /[A-Z]/.test(password) },
+  { label: 'A lowercase letter', test: (password: string) => /[a-z]/.test(password) },
+  { label: 'A number', test: (password: string) => /\d/.test(password) },
+  { label: 'A symbol', test: (password: string) => /[^A-Za-z0-9]/.test(password) },
+];
+
+const validate = (formData: Record<FormField, string>): FieldErrors => {
+  const errors: FieldErrors = {};
+
+  if (!formData.name.trim()) {
+    errors.name = 'Please enter your name';
+  }
+  if (!EMAIL_PATTERN.test(formData.email.trim())) {
+    errors.email = 'Please enter a valid email address';
+  }
+  if (!passwordRules.every((rule) => rule.test(formData.password))) {
+    errors.password = 'Password does not meet all the requirements';
+  }
+  if (formData.confirmPassword !== formData.password) {
+    errors.confirmPassword = 'Passwords do not match';
+  }
+
+  return errors;
+};
+
+// The server reports problems either as ASP.NET validation errors ({ errors: { Email: [...] } })
+// or as Identity errors ([{ code: 'DuplicateEmail', description }]). Map both onto the form fields.
+const toFieldErrors = (error: ApiError): FieldErrors => {
+  const errors: FieldErrors = {};
+  const data = error.data as
+    | { errors?: Record<string, string[]> | { code?: string; description?: string }[] }
+    | { code?: string; description?: string }[]
+    | undefined;
+  const serverErrors = Array.isArray(data) ? data : data?.errors;
+
+  if (Array.isArray(serverErrors)) {
+    serverErrors.forEach(({ code = '', description = '' }) => {
+      if (code.startsWith('Password')) errors.password ??= description;
+      else if (code.includes('Email') || code.includes('UserName')) errors.email ??= description;
+    });
+  } else if (serverErrors) {
+    Object.entries(serverErrors).forEach(([key, messages]) => {
+      const field = key.toLowerCase();
+      const message = messages[0];
+      if (field === 'email') errors.email = message;
+      else if (field === 'password') errors.password = message;
+      else if (field === 'username') errors.name = message;
+    });
+  }
+
+  if (error.status === 409 && !errors.email) {
+    errors.email = 'An account with this email already exists';
+  }
+
+  return errors;
+};
+
+const inputClassName = (hasError: boolean) =>
+  `appearance-none rounded-lg relative block w-full px-3 py-2 border ${
+    hasError ? 'border-red-400' : 'border-gray-300'
+  } placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm`;
 
 const Register = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { login } = useAuth();
   const [formData, setFormData] = useState({
     name: '',
     email: '',
     password: '',
     confirmPassword: '',
   });
+  const [profile, setProfile] = useState<UserProfile>({});
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const from = location.state?.from?.pathname || '/surveys';
+
+  const updateField = (field: FormField, value: string) => {
+    setFormData({ ...formData, [field]: value });
+    if (fieldErrors[field]) {
+      setFieldErrors({ ...fieldErrors, [field]: undefined });
+    }
+  };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    // Handle registration logic here
+    setError('');
+
+    const errors = validate(formData);
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    setIsLoading(true);
+
+    try {
+      // Blank profile fields are left out rather than stored as empty strings
+      const sharedProfile = Object.fromEntries(
+        Object.entries(profile).filter(([, value]) => value && value.trim())
+      ) as UserProfile;
+
+      const data = await AuthApi.register({
+        username: formData.name.trim(),
+        email: formData.email.trim(),
+        password: formData.password,
+        profile: sharedProfile,
+      });
+
+      login(data.token, {
+        id: data.id,
+        username: data.username,
+        email: data.email,
+        profile: data.profile ?? sharedProfile,
+      }, data.refreshToken);
+
+      navigate(from, { replace: true });
+    } catch (err) {
+      if (err instanceof ApiError && !err.isNetworkError) {
+        const serverFieldErrors = toFieldErrors(err);
+        setFieldErrors(serverFieldErrors);
+        if (Object.keys(serverFieldErrors).length === 0) {
+          setError(err.message);
+        }
+      } else {
+        setError(err instanceof Error ? err.message : 'Registration failed. Please try again.');
+      }
+    } finally {
+      setIsLoading(false);
+    }
   };
 
   return (
@@ -25,61 +155,127 @@ const Register = () => {
           <h2 className="mt-6 text-3xl font-extrabold text-gray-900">Create your account</h2>
           <p className="mt-2 text-sm text-gray-600">
             Already have an account?{' '}
-            <Link to="/login" className="font-medium text-indigo-600 hover:text-indigo-500">
+            <Link to="/login" state={location.state} className="font-medium text-indigo-600 hover:text-indigo-500">
               Sign in
             </Link>
           </p>
         </div>
-        <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+
+        {error && (
+          <div className="bg-red-50 border-l-4 border-red-400 p-4 rounded-lg">
+            <div className="flex items-center">
+              <AlertCircle className="h-5 w-5 text-red-400 mr-2 flex-shrink-0" />
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          </div>
+        )}
+
+        <form className="mt-8 space-y-6" onSubmit={handleSubmit} noValidate>
           <div className="rounded-md shadow-sm space-y-4">
             <div>
               <input
                 type="text"
                 required
-                className="appearance-none rounded-lg relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                className={inputClassName(Boolean(fieldErrors.name))}
                 placeholder="Full Name"
                 value={formData.name}
-                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                onChange={(e) => updateField('name', e.target.value)}
               />
+              {fieldErrors.name && <p className="mt-1 text-sm text-red-600">{fieldErrors.name}</p>}
             </div>
             <div>
               <input
                 type="email"
                 required
-                className="appearance-none rounded-lg relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                className={inputClassName(Boolean(fieldErrors.email))}
                 placeholder="Email address"
                 value={formData.email}
-                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                onChange={(e) => updateField('email', e.target.value)}
               />
+              {fieldErrors.email && <p className="mt-1 text-sm text-red-600">{fieldErrors.email}</p>}
             </div>
             <div>
               <input
                 type="password"
                 required
-                className="appearance-none rounded-lg relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                className={inputClassName(Boolean(fieldErrors.password))}
                 placeholder="Password"
                 value={formData.password}
-                onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                onChange={(e) => updateField('password', e.target.value)}
               />
+              {fieldErrors.password && <p className="mt-1 text-sm text-red-600">{fieldErrors.password}</p>}
+              <ul className="mt-2 space-y-1">
+                {passwordRules.map((rule) => {
+                  const passed = rule.test(formData.password);
+                  return (
+                    <li
+                      key={rule.label}
+                      className={`flex items-center text-xs ${passed ? 'text-green-600' : 'text-gray-500'}`}
+                    >
+                      {passed ? <Check className="h-3 w-3 mr-1" /> : <X className="h-3 w-3 mr-1" />}
+                      {rule.label}
+                    </li>
+                  );
+                })}
+              </ul>
             </div>
             <div>
               <input
                 type="password"
                 required
-                className="appearance-none rounded-lg relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                className={inputClassName(Boolean(fieldErrors.confirmPassword))}
                 placeholder="Confirm Password"
                 value={formData.confirmPassword}
-                onChange={(e) => setFormData({ ...formData, confirmPassword: e.target.value })}
+                onChange={(e) => updateField('confirmPassword', e.target.value)}
               />
+              {fieldErrors.confirmPassword && (
+                <p className="mt-1 text-sm text-red-600">{fieldErrors.confirmPassword}</p>
+              )}
             </div>
           </div>
 
+          <div className="space-y-4">
+            <div>
+              <p className="text-sm font-medium text-gray-700">About you (optional)</p>
+              <p className="text-xs text-gray-500">Only used to group survey results. You can leave these blank.</p>
+            </div>
+            <select
+              className={inputClassName(false)}
+              value={profile.ageBand || ''}
+              onChange={(e) => setProfile({ ...profile, ageBand: e.target.value })}
+            >
+              <option value="">Age band</option>
+              {ageBands.map((band) => (
+                <option key={band} value={band}>
+                  {band}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              className={inputClassName(false)}
+              placeholder="Department"
+              value={profile.department || ''}
+              onChange={(e) => setProfile({ ...profile, department: e.target.value })}
+            />
+            <input
+              type="text"
+              className={inputClassName(false)}
+              placeholder="Region"
+              value={profile.region || ''}
+              onChange={(e) => setProfile({ ...profile, region: e.target.value })}
+            />
+          </div>
+
           <div>
             <button
               type="submit"
-              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              disabled={isLoading}
+              className={`group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${
+                isLoading ? 'opacity-75 cursor-not-allowed' : ''
+              }`}
             >
-              Create Account
+              {isLoading ? 'Creating account...' : 'Create Account'}
             </button>
           </div>
         </form>
@@ -88,4 +284,4 @@ const Register = () => {
   );
 };
 
-export default Register;
\ No newline at end of file
+export default Register;
@@ -4,32 +4,27 @@ import type React from "react"
 
 import { useState, useEffect } from "react"
 import { useNavigate } from "react-router-dom"
-import { ClipboardList, Search, Clock, Users, Star, TrendingUp, ChevronRight } from "lucide-react"
-
-// Define types based on the API
-interface Survey {
-  id: string
-  title: string
-  description: string
-  coverImageUrl?: string
-  isActive: boolean
-  createdAt: string
-  createdBy: string
-  updatedAt?: string
-  questions: Question[]
-  numberOfResponses?: number
-  category?: string
-}
-
-interface Question {
-  id: string
-  title: string
-  description?: string
-  type: string
-  options?: string[]
-  isRequired: boolean
-  imageUrl?: string
-}
+import {
+  ClipboardList,
+  Search,
+  Clock,
+  Users,
+  Star,
+  TrendingUp,
+  ChevronRight,
+  Pencil,
+  Share2,
+  Lock,
+  Unlock,
+  Archive,
+  ArchiveRestore,
+} from "lucide-react"
+import ShareSurveyDialog from "../components/ShareSurveyDialog"
+import { useAuth } from "../context/AuthContext"
+import { SurveyApi } from "../services/api-service"
+import { fromApiSurvey, isTextQuestion } from "../services/survey-codec"
+import { formatSurveyDate, getSurveyStatus, surveyStatusColors } from "../services/survey-status"
+import { surveyStatusLabels, type SavedSurvey, type StoredSurveyStatus, type SurveyStatus } from "../types/survey"
 
 const categories = [
   { id: 1, name: "Customer Feedback", value: "customer_feedback", color: "bg-blue-100", icon: Users },
@@ -41,6 +36,8 @@ const categories = [
   { id: 7, name: "Research", value: "research", color: "bg-indigo-100", icon: ClipboardList },
 ]
 
+const statusFilters: SurveyStatus[] = ["open", "scheduled", "draft", "closed", "archived"]
+
 // Helper function to get category display name from value
 const getCategoryDisplayName = (categoryValue: string): string => {
   const category = categories.find((c) => c.value === categoryValue)
@@ -54,14 +51,14 @@ const getCategoryColor = (categoryValue: string): string => {
 }
 
 // Helper function to generate tags from survey content
-const generateTags = (survey: Survey) => {
+const generateTags = (survey: SavedSurvey) => {
   const tags = new Set<string>()
 
   // Add tags based on question types
   survey.questions.forEach((q) => {
-    if (q.type === "MULTIPLE_CHOICE") tags.add("Multiple Choice")
-    if (q.type === "TEXT") tags.add("Text Response")
-    if (q.type === "CHECKBOX") tags.add("Checkbox")
+    if (q.type === "multiple_choice") tags.add("Multiple Choice")
+    if (isTextQuestion(q.type)) tags.add("Text Response")
+    if (q.type === "checkbox") tags.add("Checkbox")
   })
 
   // Add tags based on content
@@ -77,54 +74,23 @@ const generateTags = (survey: Survey) => {
 const SurveyList = () => {
   const [selectedCategory, setSelectedCategory] = useState("all")
   const [searchQuery, setSearchQuery] = useState("")
-  const [surveys, setSurveys] = useState<Survey[]>([])
+  // "all" leaves out archived surveys; they are only listed when asked for
+  const [selectedStatus, setSelectedStatus] = useState<SurveyStatus | "all">("all")
+  const [surveys, setSurveys] = useState<SavedSurvey[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const navigate = useNavigate()
 
-  const [isAdmin, setIsAdmin] = useState(false)
-
-  useEffect(() => {
-    // Check if user is admin
-    try {
-      const userStr = localStorage.getItem("user")
-      console.log("User from localStorage:", userStr)
-
-      if (!userStr) {
-        console.log("No user found in localStorage")
-        setIsAdmin(false)
-        return
-      }
-
-      const user = JSON.parse(userStr)
-      console.log("Parsed user:", user)
-      console.log("User roles:", user.roles)
-
-      // Check for admin role with case insensitivity
-      const isUserAdmin =
-        Array.isArray(user.roles) &&
-        user.roles.some((role) => typeof role === "string" && role.toLowerCase() === "admin")
-
-      console.log("Is user admin:", isUserAdmin)
-      setIsAdmin(isUserAdmin)
-    } catch (err) {
-      console.error("Error checking admin status:", err)
-      setIsAdmin(false)
-    }
-  }, [])
+  const { hasSurveyPermission } = useAuth()
+  const [sharingSurveyId, setSharingSurveyId] = useState<string | null>(null)
+  const sharingSurvey = surveys.find((survey) => survey.id === sharingSurveyId)
 
   useEffect(() => {
     const fetchSurveys = async () => {
       try {
         setLoading(true)
-        const response = await fetch("api/surveys")
-
-        if (!response.ok) {
-          throw new Error(`API error: ${response.status}`)
-        }
-
-        const data = await response.json()
-        setSurveys(data)
+        const data = await SurveyApi.getAllSurveys()
+        setSurveys(data.map(fromApiSurvey))
       } catch (err) {
         console.error("Error fetching surveys:", err)
         setError("Failed to load surveys. Please try again later.")
@@ -144,17 +110,7 @@ const SurveyList = () => {
     }
 
     try {
-      const token = localStorage.getItem("auth_token")
-      const response = await fetch(`/api/surveys/${id}`, {
-        method: "DELETE",
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      })
-
-      if (!response.ok) {
-        throw new Error(`Failed to delete survey: ${response.status}`)
-      }
+      await SurveyApi.deleteSurvey(id)
 
       // Remove the deleted survey from the state
       setSurveys(surveys.filter((survey) => survey.id !== id))
@@ -164,6 +120,16 @@ const SurveyList = () => {
     }
   }
 
+  const handleStatusChange = async (id: string, status: StoredSurveyStatus) => {
+    try {
+      await SurveyApi.updateSurveyStatus(id, status)
+      setSurveys((current) => current.map((survey) => (survey.id === id ? { ...survey, status } : survey)))
+    } catch (err) {
+      console.error("Error updating survey status:", err)
+      setError("Failed to update survey status. Please try again.")
+    }
+  }
+
   // Process surveys to add category and tags
   const processedSurveys = surveys.map((survey) => ({
     ...survey,
@@ -173,6 +139,8 @@ const SurveyList = () => {
     questions: survey.questions || [],
     duration: "10 mins", // Fixed at 10 mins
     participants: survey.numberOfResponses || 0,
+    currentStatus: getSurveyStatus(survey),
+    canManage: hasSurveyPermission("surveys:edit", survey),
   }))
 
   const filteredSurveys = processedSurveys.filter((survey) => {
@@ -182,7 +150,11 @@ const SurveyList = () => {
       survey.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
       survey.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
       survey.tags.some((tag) => tag.toLowerCase().includes(searchQuery.toLowerCase()))
-    return matchesCategory && matchesSearch
+    // Drafts and archived surveys are only listed for the people who can manage them
+    const isVisible = survey.canManage || (survey.currentStatus !== "draft" && survey.currentStatus !== "archived")
+    const matchesStatus =
+      selectedStatus === "all" ? survey.currentStatus !== "archived" : survey.currentStatus === selectedStatus
+    return matchesCategory && matchesSearch && isVisible && matchesStatus
   })
 
   return (
@@ -235,6 +207,21 @@ const SurveyList = () => {
             </button>
           ))}
         </div>
+        <div className="flex items-center space-x-2 overflow-x-auto pt-2 scrollbar-hide">
+          {(["all", ...statusFilters] as const).map((status) => (
+            <button
+              key={status}
+              onClick={() => setSelectedStatus(status)}
+              className={`px-3 py-1 rounded-full text-xs font-medium whitespace-nowrap transition-colors ${
+                selectedStatus === status
+                  ? "bg-gray-800 text-white"
+                  : "bg-white text-gray-600 border border-gray-200 hover:bg-gray-50"
+              }`}
+            >
+              {status === "all" ? "All statuses" : surveyStatusLabels[status]}
+            </button>
+          ))}
+        </div>
       </div>
 
       {/* Loading and Error States */}
@@ -278,6 +265,11 @@ const SurveyList = () => {
                         >
                           {survey.displayCategory}
                         </span>
+                        <span
+                          className={`px-2.5 py-0.5 ${surveyStatusColors[survey.currentStatus]} text-xs font-medium rounded-full`}
+                        >
+                          {surveyStatusLabels[survey.currentStatus]}
+                        </span>
                       </div>
                       <h3 className="text-xl font-semibold text-gray-900 mb-2">{survey.title}</h3>
                       <p className="text-gray-600 mb-4">{survey.description}</p>
@@ -301,13 +293,68 @@ const SurveyList = () => {
                         </div>
                         <div className="flex items-center">
                           <Users className="h-4 w-4 mr-1" />
-                          <span>{survey.participants} responses</span>
+                          <span>
+                            {survey.participants}
+                            {survey.schedule.maxResponses !== null && ` / ${survey.schedule.maxResponses}`} responses
+                          </span>
                         </div>
+                        {survey.currentStatus === "scheduled" && survey.schedule.opensAt && (
+                          <span>Opens {formatSurveyDate(survey.schedule.opensAt)}</span>
+                        )}
+                        {survey.currentStatus === "open" && survey.schedule.closesAt && (
+                          <span>Closes {formatSurveyDate(survey.schedule.closesAt)}</span>
+                        )}
                       </div>
                     </div>
 
                     <div className="flex flex-col sm:flex-row gap-2 mt-4 sm:mt-0">
-                      {isAdmin && (
+                      {survey.canManage && (survey.status === "open" || survey.status === "closed") && (
+                        <button
+                          onClick={() => handleStatusChange(survey.id, survey.status === "open" ? "closed" : "open")}
+                          className="w-full sm:w-auto group px-6 py-3 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center justify-center space-x-2"
+                        >
+                          {survey.status === "open" ? (
+                            <Lock className="h-4 w-4 mr-1" />
+                          ) : (
+                            <Unlock className="h-4 w-4 mr-1" />
+                          )}
+                          <span>{survey.status === "open" ? "Close" : "Reopen"}</span>
+                        </button>
+                      )}
+                      {survey.canManage && survey.status !== "open" && (
+                        <button
+                          onClick={() => handleStatusChange(survey.id, survey.status === "archived" ? "closed" : "archived")}
+                          className="w-full sm:w-auto group px-6 py-3 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center justify-center space-x-2"
+                        >
+                          {survey.status === "archived" ? (
+                            <ArchiveRestore className="h-4 w-4 mr-1" />
+                          ) : (
+                            <Archive className="h-4 w-4 mr-1" />
+                          )}
+                          <span>{survey.status === "archived" ? "Restore" : "Archive"}</span>
+                        </button>
+                      )}
+                      {hasSurveyPermission("surveys:share", survey) && (
+                        <button
+                          onClick={() => setSharingSurveyId(survey.id)}
+                          className="w-full sm:w-auto group px-6 py-3 bg-white text-indigo-600 border border-indigo-600 rounded-lg hover:bg-indigo-50 transition-colors flex items-center justify-center space-x-2"
+                          aria-label="Share survey"
+                        >
+                          <Share2 className="h-4 w-4 mr-1" />
+                          <span>Share</span>
+                        </button>
+                      )}
+                      {hasSurveyPermission("surveys:edit", survey) && (
+                        <button
+                          onClick={() => navigate(`/surveys/${survey.id}/edit`)}
+                          className="w-full sm:w-auto group px-6 py-3 bg-white text-indigo-600 border border-indigo-600 rounded-lg hover:bg-indigo-50 transition-colors flex items-center justify-center space-x-2"
+                          aria-label="Edit survey"
+                        >
+                          <Pencil className="h-4 w-4 mr-1" />
+                          <span>Edit</span>
+                        </button>
+                      )}
+                      {hasSurveyPermission("surveys:delete", survey) && (
                         <button
                           onClick={(e) => handleDeleteSurvey(survey.id, e)}
                           className="w-full sm:w-auto group px-6 py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors flex items-center justify-center space-x-2"
@@ -332,13 +379,15 @@ const SurveyList = () => {
                           <span>Delete</span>
                         </button>
                       )}
-                      <button
-                        onClick={() => navigate(`/surveys/${survey.id}`)}
-                        className="w-full sm:w-auto group px-6 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors flex items-center justify-center space-x-2"
-                      >
-                        <span>Take Survey</span>
-                        <ChevronRight className="h-4 w-4 group-hover:translate-x-1 transition-transform" />
-                      </button>
+                      {survey.currentStatus === "open" && (
+                        <button
+                          onClick={() => navigate(`/surveys/${survey.id}`)}
+                          className="w-full sm:w-auto group px-6 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors flex items-center justify-center space-x-2"
+                        >
+                          <span>Take Survey</span>
+                          <ChevronRight className="h-4 w-4 group-hover:translate-x-1 transition-transform" />
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -347,6 +396,18 @@ const SurveyList = () => {
           )}
         </div>
       )}
+
+      {sharingSurvey && (
+        <ShareSurveyDialog
+          survey={sharingSurvey}
+          onClose={() => setSharingSurveyId(null)}
+          onCollaboratorsChange={(collaborators) =>
+            setSurveys((current) =>
+              current.map((survey) => (survey.id === sharingSurvey.id ? { ...survey, collaborators } : survey)),
+            )
+          }
+        />
+      )}
     </div>
   )
 }
@@ -1,8 +1,8 @@
 "use client"
 
 import type React from "react"
-import { useState, useEffect, useRef } from "react"
-import { useParams, useNavigate } from "react-router-dom"
+import { Fragment, useState, useEffect, useRef, useMemo } from "react"
+import { useParams, useNavigate, useLocation, Navigate } from "react-router-dom"
 import { motion, AnimatePresence } from "framer-motion"
 import confetti from "canvas-confetti"
 import {
@@ -20,63 +20,193 @@ import {
   PartyPopper,
   Star,
   ThumbsUp,
+  RotateCcw,
+  UserCheck,
+  Trash2,
+  CloudOff,
+  Lock,
+  CalendarClock,
+  Layers,
+  ListOrdered,
+  Gauge,
+  Paperclip,
 } from "lucide-react"
+import {
+  ApiError,
+  SurveyApi,
+  getProxiedImageUrl,
+  type ApiSurveyResponse,
+  type QuestionResponse,
+  type ResponseFile,
+  type SurveyEligibility,
+  type SurveyResponseDto,
+} from "../services/api-service"
+import {
+  fromApiSurvey,
+  getScalePoints,
+  isChoiceQuestion,
+  isMultiValueQuestion,
+  parseMatrixCell,
+  toMatrixCell,
+} from "../services/survey-codec"
+import { defaultFileUploadSettings } from "../services/survey-files"
+import { getQuestionPath, hasBranchingLogic, isAnswered } from "../services/survey-logic"
+import { NPS_POINTS, getNpsCategory, type NpsCategory } from "../services/survey-nps"
+import { getValidationError } from "../services/survey-validation"
+import { resolvePipingTokens, toIdTokens, toPositionTokens } from "../services/survey-piping"
+import { groupQuestionsBySection, hasSectionPages } from "../services/survey-sections"
+import { formatSurveyDate, getClosedReason, getSurveyStatus } from "../services/survey-status"
+import FileUploadInput from "../components/FileUploadInput"
+import RankingInput from "../components/RankingInput"
+import { useAuth } from "../context/AuthContext"
+import { useSurveyDraft } from "../hooks/useSurveyDraft"
+import { useQuestionTimer } from "../hooks/useQuestionTimer"
+import { createIdempotencyKey, enqueueResponse } from "../services/response-queue"
+import { getDeviceToken } from "../services/device-token"
+import type { Question, QuestionType, SavedSurvey, SurveySection, SurveyTheme } from "../types/survey"
 
-// Define types based on the API
-interface Survey {
-  id: string
-  title: string
-  description: string
-  coverImageUrl?: string
-  isActive: boolean
-  createdAt: string
-  createdBy: string
-  updatedAt?: string
-  questions: Question[]
+interface Answer {
+  questionId: string
+  value: string | string[]
 }
 
-interface Question {
-  id: string
-  title: string
-  description?: string
-  type: number // Changed to number to match API response
-  options?: string[]
-  isRequired: boolean
-  imageUrl?: string
+// `single` shows one question at a time and `section` one section per page; `all` is one long form
+type ViewMode = "single" | "section" | "all"
+
+// Surveys split into sections are paged by section, others one question at a time
+const getPagedViewMode = (survey: SavedSurvey): ViewMode => (hasSectionPages(survey.sections) ? "section" : "single")
+
+// Page background and accent gradient for each survey theme
+const themeStyles: Record<SurveyTheme, { page: string; accent: string }> = {
+  default: {
+    page: "bg-gradient-to-br from-blue-50 via-white to-purple-50",
+    accent: "bg-gradient-to-r from-blue-500 to-purple-600",
+  },
+  modern: {
+    page: "bg-gradient-to-br from-slate-100 via-white to-cyan-50",
+    accent: "bg-gradient-to-r from-slate-800 to-cyan-600",
+  },
+  minimal: {
+    page: "bg-white",
+    accent: "bg-gray-900",
+  },
+  colorful: {
+    page: "bg-gradient-to-br from-pink-50 via-yellow-50 to-green-50",
+    accent: "bg-gradient-to-r from-pink-500 via-orange-400 to-yellow-400",
+  },
 }
 
-// Question types enum to match API numeric types
-enum QuestionType {
-  Rating = 0,
-  MultipleChoice = 1,
-  Text = 2,
-  Checkbox = 3,
-  NPS = 4,
-  Date = 5,
-  Time = 6,
-  ClosedEnded = 7,
+// The seed is kept for the browser session so a reload shows the respondent the same order
+const getShuffleSeed = (surveyId: string) => {
+  const key = `survey_shuffle_seed_${surveyId}`
+  const stored = Number(sessionStorage.getItem(key))
+  if (stored) return stored
+
+  const seed = Math.floor(Math.random() * 2 ** 32) || 1
+  sessionStorage.setItem(key, seed.toString())
+  return seed
 }
 
-interface Answer {
-  questionId: string
-  value: string | string[]
+// Fisher-Yates shuffle driven by a seeded (mulberry32) generator, so a seed always gives the same order
+const shuffleWithSeed = <T,>(items: T[], seed: number): T[] => {
+  let state = seed
+  const random = () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    const item = result[i]
+    result[i] = result[j]
+    result[j] = item
+  }
+  return result
+}
+
+// Choice and ranking answers are submitted as the option the author wrote, with its piping tokens
+// by question number as in the stored option list, rather than the text the respondent saw. That
+// keeps them matching the survey's options in analytics. Positions count in authored order.
+const mapOptionAnswer = (question: Question, value: Answer["value"], transform: (text: string) => string) => {
+  if (!isChoiceQuestion(question.type) && question.type !== "ranking") return value
+  return Array.isArray(value) ? value.map(transform) : transform(value)
+}
+
+// Turn a stored response back into form answers, keeping the empty answers for anything it skipped
+const toAnswers = (questions: Question[], responses: QuestionResponse[], authoredQuestions: Question[]): Answer[] => {
+  const byQuestion = new Map(responses.map((response) => [response.questionId, response]))
+  const toAnswer = (question: Question, value: Answer["value"]): Answer => ({
+    questionId: question.id,
+    value: mapOptionAnswer(question, value, (text) => toIdTokens(text, authoredQuestions)),
+  })
+
+  return questions.map((question) => {
+    const response = byQuestion.get(question.id)
+    if (question.type === "file_upload" && response?.files) {
+      return toAnswer(question, response.files.map((file) => file.fileName))
+    }
+    if (isMultiValueQuestion(question.type)) {
+      return toAnswer(question, response?.selectedOptions ?? [])
+    }
+    return toAnswer(question, response?.answer || response?.selectedOptions?.[0] || "")
+  })
+}
+
+// Required matrix questions need an answer in every row and rankings need every option placed;
+// anything else just needs an answer
+const isQuestionComplete = (question: Question, value: Answer["value"] | undefined) => {
+  const values = Array.isArray(value) ? value : []
+
+  if (question.type === "matrix" && question.matrix) {
+    return question.matrix.rows.every((row) => values.some((cell) => parseMatrixCell(question, cell)?.row === row))
+  }
+  if (question.type === "ranking") {
+    return (question.options || []).every((option) => values.includes(option))
+  }
+
+  return isAnswered(value)
+}
+
+// Unselected and selected looks of the 0-10 buttons, by the group each score falls in
+const npsButtonStyles: Record<NpsCategory, { idle: string; selected: string }> = {
+  detractor: { idle: "text-red-600 border-red-200 hover:bg-red-50", selected: "bg-red-500 border-red-500 text-white" },
+  passive: { idle: "text-amber-600 border-amber-200 hover:bg-amber-50", selected: "bg-amber-500 border-amber-500 text-white" },
+  promoter: { idle: "text-green-600 border-green-200 hover:bg-green-50", selected: "bg-green-500 border-green-500 text-white" },
+}
+
+const formatAnswer = (value: string | string[] | undefined) => {
+  if (Array.isArray(value)) return value.join(", ")
+  return value || ""
 }
 
 export default function SurveyResponse() {
   const params = useParams()
   const navigate = useNavigate()
+  const location = useLocation()
+  const { user, isLoading: isAuthLoading } = useAuth()
   const surveyId = params.id as string
   const confettiRef = useRef<HTMLDivElement>(null)
 
-  const [survey, setSurvey] = useState<Survey | null>(null)
+  const [survey, setSurvey] = useState<SavedSurvey | null>(null)
+  // The questions before shuffling; piping tokens in submitted answers count positions in this order
+  const authoredQuestionsRef = useRef<Question[]>([])
   const [answers, setAnswers] = useState<Answer[]>([])
   const [loading, setLoading] = useState(true)
   const [submitting, setSubmitting] = useState(false)
+  // Files picked for file upload questions, by question id. They are only sent on submit.
+  const [pendingFiles, setPendingFiles] = useState<Record<string, File[]>>({})
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [submitError, setSubmitError] = useState<string | null>(null)
+  // Questions the respondent tried to move past with an invalid answer. Their errors show inline
+  // from then on and clear as soon as the answer is fixed.
+  const [checkedQuestionIds, setCheckedQuestionIds] = useState<Set<string>>(new Set())
   const [success, setSuccess] = useState(false)
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0)
-  const [viewMode, setViewMode] = useState<"single" | "all">("single")
+  const [viewMode, setViewMode] = useState<ViewMode>("single")
   const [progress, setProgress] = useState(0)
   const [showTooltip, setShowTooltip] = useState(false)
   const [tooltipMessage, setTooltipMessage] = useState("")
@@ -85,38 +215,101 @@ export default function SurveyResponse() {
   const [showCompletionMessage, setShowCompletionMessage] = useState(false)
   // Add a flag to track if the user has explicitly clicked the Next button on the last question
   const [userCompletedLastQuestion, setUserCompletedLastQuestion] = useState(false)
+  // Set once the answers are valid, when the survey asks respondents to review before submitting
+  const [isReviewing, setIsReviewing] = useState(false)
+  // Set when the submission was queued on the device because the server could not be reached
+  const [pendingSync, setPendingSync] = useState(false)
+  // One key per submission, so a resend of the same answers is recognised by the server
+  const idempotencyKeyRef = useRef(createIdempotencyKey())
+  // Result of the per-respondent and quota check; null when the survey has no limits
+  const [eligibility, setEligibility] = useState<SurveyEligibility | null>(null)
+  const [isCheckingEligibility, setIsCheckingEligibility] = useState(false)
+  // The earlier response being changed, pre-filled when the survey allows review
+  const [editingResponse, setEditingResponse] = useState<ApiSurveyResponse | null>(null)
+  // Set when the respondent chose to answer afresh rather than edit their earlier response
+  const [isNewResponse, setIsNewResponse] = useState(false)
+  const [isWithdrawn, setIsWithdrawn] = useState(false)
 
   // Refs for scroll handling
   const questionRefs = useRef<(HTMLDivElement | null)[]>([])
 
-  // Helper function to ensure image URLs use the proxy and handle HTTPS issues
-  const getProxiedImageUrl = (url: string | undefined) => {
-    if (!url) return "/placeholder.svg"
+  const {
+    savedDraft,
+    isChecked: isDraftChecked,
+    saveDraft,
+    clearDraft,
+    acceptDraft,
+  } = useSurveyDraft(surveyId, Boolean(user))
+
+  // The questions this respondent goes through given their answers so far. Hidden and skipped
+  // questions are left out of navigation, progress, validation and the submitted responses.
+  const questionPath = useMemo(() => {
+    if (!survey) return []
+    const answerLookup = Object.fromEntries(answers.map((answer) => [answer.questionId, answer.value]))
+    return getQuestionPath(survey.questions, answerLookup)
+  }, [survey, answers])
+
+  // Answers piped into later question text. Questions that are hidden or skipped on the current
+  // path count as unanswered, so their tokens show the fallback rather than a stale answer.
+  const pipedAnswers = useMemo(() => {
+    const questionsOnPath = new Set(questionPath.map((question) => question.id))
+    return Object.fromEntries(
+      answers.filter((answer) => questionsOnPath.has(answer.questionId)).map((answer) => [answer.questionId, answer.value]),
+    )
+  }, [answers, questionPath])
 
-    // If it's already a relative URL, return as is
-    if (url.startsWith("/")) return url
+  const pipe = (text: string) => resolvePipingTokens(text, pipedAnswers)
 
-    try {
-      // Create a URL object to work with the URL parts
-      const urlObj = new URL(url)
-
-      // Check if we need to proxy the URL
-      if (url.includes("/api/files")) {
-        // For API file URLs, use a relative path to leverage Netlify redirects
-        // This avoids mixed content issues by using the same protocol as the site
-        const fileId = urlObj.pathname.split("/").pop()
-        if (fileId) {
-          return `/api/files/${fileId}`
-        }
-      }
+  const submittingLabel = uploadProgress === null ? "Submitting..." : `Uploading files... ${uploadProgress}%`
+
+  // The sections the respondent pages through. A section whose questions are all hidden by the
+  // current answers is skipped.
+  const sectionPages = useMemo(
+    () =>
+      survey ? groupQuestionsBySection(survey.sections, questionPath).filter((page) => page.questions.length > 0) : [],
+    [survey, questionPath],
+  )
+
+  // Worked out when the survey loads rather than on every render, so a deadline passing while the
+  // form is being filled in does not throw the answers away; the server rejects the late submission
+  const surveyStatus = useMemo(() => (survey ? getSurveyStatus(survey) : null), [survey])
+
+  const { startedAt, trackQuestion, getTimeSpent } = useQuestionTimer()
+
+  // Find out before the first question whether this respondent may answer at all, instead of
+  // letting them fill in the whole form only for the submission to be rejected
+  useEffect(() => {
+    if (!survey || surveyStatus !== "open" || isAuthLoading) return
+    // With review allowed the check also finds an earlier response to pre-fill
+    const { onePerRespondent, allowReview } = survey.settings
+    if (!onePerRespondent && !allowReview && survey.schedule.maxResponses === null) return
+
+    let cancelled = false
+    setIsCheckingEligibility(true)
+
+    SurveyApi.getEligibility(survey.id, getDeviceToken())
+      .then((result) => {
+        if (!cancelled) setEligibility(result)
+      })
+      .catch((err) => {
+        // The server still enforces the limits on submit, so let the respondent carry on
+        console.error("Error checking eligibility:", err)
+      })
+      .finally(() => {
+        if (!cancelled) setIsCheckingEligibility(false)
+      })
 
-      // For other URLs, return as is
-      return url
-    } catch (e) {
-      console.error("Invalid URL:", url, e)
-      return "/placeholder.svg"
+    return () => {
+      cancelled = true
     }
-  }
+  }, [survey, surveyStatus, isAuthLoading, user])
+  const currentQuestionId = questionPath[currentQuestionIndex]?.id ?? null
+  // In the section view the current question is the first one of the section on screen, which keeps
+  // drafts and the review step's edit links working the same way in both paged views
+  const currentPageIndex = Math.max(
+    sectionPages.findIndex((page) => page.questions.some((question) => question.id === currentQuestionId)),
+    0,
+  )
 
   useEffect(() => {
     const fetchSurvey = async () => {
@@ -128,31 +321,20 @@ export default function SurveyResponse() {
 
       try {
         setLoading(true)
-        // Make sure we're using the correct API endpoint
-        const response = await fetch(`/api/surveys/${surveyId}`)
-
-        if (!response.ok) {
-          if (response.status === 404) {
-            throw new Error("Survey not found")
-          } else {
-            throw new Error(`API error: ${response.status}`)
-          }
-        }
-
-        // Check if the response is JSON
-        const contentType = response.headers.get("content-type")
-        if (!contentType || !contentType.includes("application/json")) {
-          throw new Error("Invalid response format. Expected JSON.")
-        }
-
-        const data = await response.json()
+        const savedSurvey = fromApiSurvey(await SurveyApi.getSurveyById(surveyId))
+        const data =
+          savedSurvey.settings.shuffleQuestions && !hasBranchingLogic(savedSurvey.questions)
+            ? { ...savedSurvey, questions: shuffleWithSeed(savedSurvey.questions, getShuffleSeed(savedSurvey.id)) }
+            : savedSurvey
         console.log("Survey data:", data) // Debug log
+        authoredQuestionsRef.current = savedSurvey.questions
         setSurvey(data)
+        setViewMode(getPagedViewMode(data))
 
         // Add this inside the useEffect where you fetch the survey data, right after setting the survey data
         console.log("Survey cover image URL:", data.coverImageUrl)
         if (data.questions) {
-          data.questions.forEach((q: Question, i: number) => {
+          data.questions.forEach((q, i) => {
             if (q.imageUrl) {
               console.log(`Question ${i + 1} image URL:`, q.imageUrl)
             }
@@ -160,9 +342,9 @@ export default function SurveyResponse() {
         }
 
         // Initialize answers array with empty values based on question type
-        const initialAnswers = data.questions.map((question: Question) => ({
+        const initialAnswers = data.questions.map((question) => ({
           questionId: question.id,
-          value: question.type === QuestionType.Checkbox ? [] : "",
+          value: isMultiValueQuestion(question.type) ? [] : "",
         }))
         setAnswers(initialAnswers)
 
@@ -170,7 +352,11 @@ export default function SurveyResponse() {
         questionRefs.current = data.questions.map(() => null)
       } catch (err) {
         console.error("Error fetching survey:", err)
-        setError(`Failed to load survey: ${err instanceof Error ? err.message : "Unknown error"}`)
+        if (err instanceof ApiError && err.isNotFound) {
+          setError("Failed to load survey: Survey not found")
+        } else {
+          setError(`Failed to load survey: ${err instanceof Error ? err.message : "Unknown error"}`)
+        }
       } finally {
         setLoading(false)
       }
@@ -183,45 +369,67 @@ export default function SurveyResponse() {
   useEffect(() => {
     if (!survey) return
 
+    // Answers to hidden or skipped questions don't count towards the path they're not on
+    const questionsOnPath = new Set(questionPath.map((question) => question.id))
     const answeredCount = answers.filter((answer) => {
+      if (!questionsOnPath.has(answer.questionId)) return false
       if (Array.isArray(answer.value)) {
         return answer.value.length > 0
       }
       return answer.value !== ""
     }).length
 
-    const totalQuestions = survey.questions.length
-    const newProgress = Math.round((answeredCount / totalQuestions) * 100)
+    const totalQuestions = questionPath.length
+    const newProgress = totalQuestions > 0 ? Math.round((answeredCount / totalQuestions) * 100) : 0
     setProgress(newProgress)
 
     // Calculate remaining required questions
-    const unansweredRequired = survey.questions.filter((question) => {
-      // Find the corresponding answer by questionId
-      const answer = answers.find((a) => a.questionId === question.id)
-      if (!question.isRequired) return false
-
-      if (Array.isArray(answer?.value)) {
-        return answer.value.length === 0
-      }
-
-      return !answer?.value
-    }).length
+    const unansweredRequired = questionPath.filter(
+      (question) =>
+        question.required && !isQuestionComplete(question, answers.find((a) => a.questionId === question.id)?.value),
+    ).length
 
     setRemainingRequired(unansweredRequired)
 
     // IMPORTANT: We're removing the automatic completion message logic
     // The completion message will now ONLY be shown when the user explicitly clicks "Next" on the last question
-  }, [answers, survey, currentQuestionIndex, viewMode])
+  }, [answers, survey, questionPath, currentQuestionIndex, viewMode])
 
   // This effect controls the completion message visibility
   useEffect(() => {
     // Only show completion message if the user has explicitly completed the last question
-    if (userCompletedLastQuestion && survey && currentQuestionIndex === survey.questions.length - 1) {
+    if (userCompletedLastQuestion && survey && currentQuestionIndex === questionPath.length - 1) {
       setShowCompletionMessage(true)
     } else {
       setShowCompletionMessage(false)
     }
-  }, [userCompletedLastQuestion, currentQuestionIndex, survey])
+  }, [userCompletedLastQuestion, currentQuestionIndex, survey, questionPath])
+
+  // Autosave answers once the respondent has started. Nothing is saved while a previous draft is
+  // still waiting to be restored or discarded, so it cannot be overwritten by the empty answers.
+  useEffect(() => {
+    if (!survey || !isDraftChecked || savedDraft || success) return
+    if (!answers.some((answer) => isAnswered(answer.value))) return
+
+    saveDraft(answers, currentQuestionIndex)
+  }, [answers, currentQuestionIndex, survey, isDraftChecked, savedDraft, success, saveDraft])
+
+  // Time the question on screen. The section and all-questions views have no current question, so
+  // there the answer handlers time whichever question the respondent is working on.
+  useEffect(() => {
+    if (!survey || isReviewing || success || pendingSync) {
+      trackQuestion(null)
+    } else if (viewMode === "single") {
+      trackQuestion(currentQuestionId)
+    }
+  }, [survey, viewMode, currentQuestionId, isReviewing, success, pendingSync, trackQuestion])
+
+  // An answer can shorten the path (e.g. a jump to the end), so keep the current question on it
+  useEffect(() => {
+    if (questionPath.length > 0 && currentQuestionIndex >= questionPath.length) {
+      setCurrentQuestionIndex(questionPath.length - 1)
+    }
+  }, [questionPath, currentQuestionIndex])
 
   const handleTextChange = (questionId: string, value: string) => {
     // Clear any existing submit error when user types an answer
@@ -229,6 +437,8 @@ export default function SurveyResponse() {
       setSubmitError(null)
     }
 
+    if (viewMode !== "single") trackQuestion(questionId)
+
     setAnswers((prev) => prev.map((answer) => (answer.questionId === questionId ? { ...answer, value } : answer)))
 
     // IMPORTANT: No auto-advancement logic here
@@ -241,6 +451,8 @@ export default function SurveyResponse() {
       setSubmitError(null)
     }
 
+    if (viewMode !== "single") trackQuestion(questionId)
+
     setAnswers((prev) => prev.map((answer) => (answer.questionId === questionId ? { ...answer, value } : answer)))
   }
 
@@ -250,6 +462,8 @@ export default function SurveyResponse() {
       setSubmitError(null)
     }
 
+    if (viewMode !== "single") trackQuestion(questionId)
+
     setAnswers((prev) =>
       prev.map((answer) => {
         if (answer.questionId === questionId) {
@@ -269,24 +483,78 @@ export default function SurveyResponse() {
     )
   }
 
-  const validateAnswers = (showErrors = false) => {
-    if (!survey) return false
+  // Each matrix row takes one column unless several are allowed; picking a selected cell clears it
+  const handleMatrixChange = (question: Question, row: string, column: string) => {
+    if (submitError) {
+      setSubmitError(null)
+    }
 
-    // Find all required questions that haven't been answered
-    const unansweredRequired = survey.questions.filter((question) => {
-      // Find the corresponding answer by questionId
-      const answer = answers.find((a) => a.questionId === question.id)
-      if (!question.isRequired) return false
+    if (viewMode !== "single") trackQuestion(question.id)
+
+    const cell = toMatrixCell(row, column)
+    setAnswers((prev) =>
+      prev.map((answer) => {
+        if (answer.questionId !== question.id) return answer
 
-      // Check if the answer exists and has a value
-      if (!answer) return true
+        const cells = Array.isArray(answer.value) ? answer.value : []
+        if (cells.includes(cell)) return { ...answer, value: cells.filter((c) => c !== cell) }
 
-      if (Array.isArray(answer.value)) {
-        return answer.value.length === 0
-      }
+        const kept = question.matrix?.multiplePerRow
+          ? cells
+          : cells.filter((c) => parseMatrixCell(question, c)?.row !== row)
+        return { ...answer, value: [...kept, cell] }
+      }),
+    )
+  }
 
-      return !answer.value || answer.value.trim() === ""
-    })
+  const handleRankingChange = (questionId: string, ranking: string[]) => {
+    if (submitError) {
+      setSubmitError(null)
+    }
+
+    if (viewMode !== "single") trackQuestion(questionId)
+
+    setAnswers((prev) => prev.map((answer) => (answer.questionId === questionId ? { ...answer, value: ranking } : answer)))
+  }
+
+  const handleFilesChange = (questionId: string, names: string[], files: File[]) => {
+    if (submitError) {
+      setSubmitError(null)
+    }
+
+    if (viewMode !== "single") trackQuestion(questionId)
+
+    setPendingFiles((prev) => ({ ...prev, [questionId]: files }))
+    setAnswers((prev) => prev.map((answer) => (answer.questionId === questionId ? { ...answer, value: names } : answer)))
+  }
+
+  const getAnswerError = (question: Question) =>
+    getValidationError(question, answers.find((a) => a.questionId === question.id)?.value)
+
+  const showAnswerErrors = (questions: Question[]) =>
+    setCheckedQuestionIds((ids) => new Set([...ids, ...questions.map((question) => question.id)]))
+
+  const renderAnswerError = (question: Question) => {
+    const answerError = checkedQuestionIds.has(question.id) ? getAnswerError(question) : null
+
+    return (
+      answerError && (
+        <div role="alert" className="mt-3 flex items-center text-sm text-red-600">
+          <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+          {answerError}
+        </div>
+      )
+    )
+  }
+
+  const validateAnswers = (showErrors = false) => {
+    if (!survey) return false
+
+    // Find all required questions that haven't been answered
+    const unansweredRequired = questionPath.filter(
+      (question) =>
+        question.required && !isQuestionComplete(question, answers.find((a) => a.questionId === question.id)?.value),
+    )
 
     if (unansweredRequired.length > 0) {
       // Only show error messages if showErrors is true
@@ -296,7 +564,7 @@ export default function SurveyResponse() {
         // If in all questions mode, scroll to the first unanswered required question
         if (viewMode === "all" && questionRefs.current.length > 0) {
           // Find the index in the questions array
-          const firstUnansweredIndex = survey.questions.findIndex((q) =>
+          const firstUnansweredIndex = questionPath.findIndex((q) =>
             unansweredRequired.some((uq) => uq.id === q.id),
           )
 
@@ -306,9 +574,9 @@ export default function SurveyResponse() {
               block: "center",
             })
           }
-        } else if (viewMode === "single") {
+        } else {
           // Find the index of the first unanswered required question
-          const firstUnansweredIndex = survey.questions.findIndex((q) =>
+          const firstUnansweredIndex = questionPath.findIndex((q) =>
             unansweredRequired.some((uq) => uq.id === q.id),
           )
 
@@ -322,6 +590,29 @@ export default function SurveyResponse() {
       return false
     }
 
+    // Answers that break one of their question's validation rules
+    const invalidAnswers = questionPath.filter((question) => getAnswerError(question) !== null)
+
+    if (invalidAnswers.length > 0) {
+      if (showErrors) {
+        showAnswerErrors(invalidAnswers)
+        setSubmitError(`Please fix the highlighted answers (${invalidAnswers.length} remaining)`)
+
+        const firstInvalidIndex = questionPath.indexOf(invalidAnswers[0])
+        if (viewMode === "all") {
+          questionRefs.current[firstInvalidIndex]?.scrollIntoView({
+            behavior: "smooth",
+            block: "center",
+          })
+        } else {
+          setCurrentQuestionIndex(firstInvalidIndex)
+          showTooltipMessage(getAnswerError(invalidAnswers[0]) || "Please fix this answer", "error")
+        }
+      }
+
+      return false
+    }
+
     return true
   }
 
@@ -360,49 +651,93 @@ export default function SurveyResponse() {
 
     if (!validateAnswers(true)) return
 
+    if (survey?.settings.allowReview && !isReviewing) {
+      setIsReviewing(true)
+      window.scrollTo({ top: 0, behavior: "smooth" })
+      return
+    }
+
     try {
       setSubmitting(true)
 
       // Map to the correct format expected by the API
-      const formattedResponses = answers.map((answer) => {
+      const timeSpent = getTimeSpent()
+      const formattedResponses: QuestionResponse[] = questionPath.flatMap((question) => {
+        const answer = answers.find((a) => a.questionId === question.id)
+        if (!answer) return []
+
         // Determine if this is a checkbox/multiple selection question
-        const isMultiSelect = Array.isArray(answer.value)
-
-        return {
-          questionId: answer.questionId,
-          // For checkbox questions, use the array as the value
-          // For other questions, use the string value
-          // But always provide both fields
-          answer: isMultiSelect ? "" : answer.value, // Empty string instead of null
-          selectedOptions: isMultiSelect ? answer.value : [], // Empty array instead of null
-        }
+        const value = mapOptionAnswer(question, answer.value, (text) =>
+          toPositionTokens(text, authoredQuestionsRef.current),
+        )
+
+        return [
+          {
+            questionId: answer.questionId,
+            // For checkbox questions, use the array as the value
+            // For other questions, use the string value
+            // But always provide both fields
+            answer: Array.isArray(value) ? "" : value, // Empty string instead of null
+            selectedOptions: Array.isArray(value) ? value : [], // Empty array instead of null
+            timeSpentSeconds: timeSpent[answer.questionId] ?? 0,
+          },
+        ]
       })
 
-      console.log("Submitting data:", formattedResponses) // Keep this debug log
+      const surveyResponse: SurveyResponseDto = {
+        surveyId,
+        responses: formattedResponses,
+        startedAt,
+        submittedAt: new Date().toISOString(),
+        deviceToken: getDeviceToken(),
+      }
 
-      const response = await fetch(`/api/surveys/${surveyId}/respond`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(formattedResponses),
-      })
+      const files: ResponseFile[] = questionPath.flatMap((question) =>
+        (pendingFiles[question.id] || []).map((file) => ({ questionId: question.id, file })),
+      )
+      const onUploadProgress = files.length > 0 ? setUploadProgress : undefined
+      if (onUploadProgress) setUploadProgress(0)
+
+      // Edits are not queued offline: the respondent is told and can try again
+      if (editingResponse) {
+        await SurveyApi.updateResponse(editingResponse.id, surveyResponse, files, onUploadProgress)
+        clearDraft()
+        setSuccess(true)
+        setTimeout(() => {
+          navigate("/surveys")
+        }, 5000)
+        return
+      }
 
-      if (!response.ok) {
-        const contentType = response.headers.get("content-type")
-        let errorMessage = `API error: ${response.status}`
+      console.log("Submitting data:", surveyResponse) // Keep this debug log
 
-        if (contentType && contentType.includes("application/json")) {
-          const errorData = await response.json()
-          errorMessage = errorData.message || errorMessage
-        } else {
-          const errorText = await response.text()
-          console.error("API response:", errorText)
+      try {
+        await SurveyApi.respondToSurvey(surveyResponse, idempotencyKeyRef.current, files, onUploadProgress)
+      } catch (err) {
+        // 410 Gone: the survey closed (deadline or response limit) while it was being answered
+        if (err instanceof ApiError && err.status === 410) {
+          clearDraft()
+          setSurvey((current) => current && { ...current, status: "closed" })
+          return
         }
-
-        throw new Error(errorMessage)
+        // 409: this respondent (or this exact submission) is already on record
+        if (err instanceof ApiError && err.status === 409) {
+          clearDraft()
+          setEligibility({ canRespond: false, reason: "already_responded", responseId: null })
+          return
+        }
+        if (!(err instanceof ApiError && err.isNetworkError)) throw err
+        // Picked files only live in this page, so a response with files can't wait for the connection
+        if (files.length > 0) throw err
+
+        // Keep the answers on the device and send them once the connection is back
+        await enqueueResponse(surveyResponse, idempotencyKeyRef.current, user?.id ?? null)
+        clearDraft()
+        setPendingSync(true)
+        return
       }
 
+      clearDraft()
       setSuccess(true)
       triggerConfetti()
 
@@ -414,6 +749,7 @@ export default function SurveyResponse() {
       setSubmitError(`Failed to submit your responses: ${err instanceof Error ? err.message : "Please try again."}`)
     } finally {
       setSubmitting(false)
+      setUploadProgress(null)
     }
   }
 
@@ -421,24 +757,27 @@ export default function SurveyResponse() {
     if (!survey) return
 
     // Check if current question is required but not answered
-    const currentQuestion = survey.questions[currentQuestionIndex]
+    const currentQuestion = questionPath[currentQuestionIndex]
     const currentAnswer = answers.find((a) => a.questionId === currentQuestion.id)
 
     // For required questions, check if they have been answered
-    if (currentQuestion.isRequired) {
-      const isAnswered = Array.isArray(currentAnswer?.value)
-        ? currentAnswer.value.length > 0
-        : Boolean(currentAnswer?.value)
-
-      if (!isAnswered) {
+    if (currentQuestion.required) {
+      if (!isQuestionComplete(currentQuestion, currentAnswer?.value)) {
         // Show error message if required question is not answered
         showTooltipMessage("Please answer this question before proceeding", "error")
         return
       }
     }
 
+    const answerError = getValidationError(currentQuestion, currentAnswer?.value)
+    if (answerError) {
+      showAnswerErrors([currentQuestion])
+      showTooltipMessage(answerError, "error")
+      return
+    }
+
     // Proceed to next question if validation passes
-    if (currentQuestionIndex < survey.questions.length - 1) {
+    if (currentQuestionIndex < questionPath.length - 1) {
       setCurrentQuestionIndex(currentQuestionIndex + 1)
       setShowCompletionMessage(false) // Hide completion message when moving to next question
       setUserCompletedLastQuestion(false) // Reset the flag when moving to a new question
@@ -449,6 +788,90 @@ export default function SurveyResponse() {
     }
   }
 
+  // Returning respondents see their earlier answers, ready to change, when the survey allows review
+  useEffect(() => {
+    if (!survey?.settings.allowReview || !eligibility?.responseId) return
+    if (editingResponse || isNewResponse || isWithdrawn) return
+
+    const loadPreviousResponse = async (responseId: string) => {
+      try {
+        setLoading(true)
+        const previous = await SurveyApi.getResponse(survey.id, responseId, getDeviceToken())
+        setAnswers(toAnswers(survey.questions, previous.responses, authoredQuestionsRef.current))
+        setEditingResponse(previous)
+        // A draft from an abandoned second attempt would only get in the way
+        clearDraft()
+        setViewMode(getPagedViewMode(survey))
+        setCurrentQuestionIndex(0)
+      } catch (err) {
+        console.error("Error loading previous response:", err)
+        setError(`Failed to load your response: ${err instanceof Error ? err.message : "Unknown error"}`)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadPreviousResponse(eligibility.responseId)
+  }, [survey, eligibility, editingResponse, isNewResponse, isWithdrawn, clearDraft])
+
+  const resetAnswers = () => {
+    if (!survey) return
+    setAnswers(
+      survey.questions.map((question) => ({
+        questionId: question.id,
+        value: isMultiValueQuestion(question.type) ? [] : "",
+      })),
+    )
+    setPendingFiles({})
+    setCurrentQuestionIndex(0)
+    setIsReviewing(false)
+  }
+
+  // Only offered when the survey accepts more than one response per person
+  const handleStartNewResponse = () => {
+    setEditingResponse(null)
+    setIsNewResponse(true)
+    resetAnswers()
+  }
+
+  const handleWithdrawResponse = async () => {
+    if (!survey || !editingResponse) return
+    if (!confirm("Withdraw your response? Your answers will be deleted and can't be recovered.")) return
+
+    try {
+      setSubmitting(true)
+      await SurveyApi.withdrawResponse(survey.id, editingResponse.id, getDeviceToken())
+      clearDraft()
+      setEditingResponse(null)
+      setEligibility(null)
+      setIsWithdrawn(true)
+      resetAnswers()
+    } catch (err) {
+      console.error("Error withdrawing response:", err)
+      setSubmitError(`Failed to withdraw your response: ${err instanceof Error ? err.message : "Please try again."}`)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleRestoreDraft = () => {
+    if (!savedDraft) return
+
+    // Files are not part of drafts, so file upload answers have to be picked again
+    const fileQuestionIds = new Set(survey?.questions.filter((q) => q.type === "file_upload").map((q) => q.id))
+    const draftValues = new Map(savedDraft.answers.map((answer) => [answer.questionId, answer.value]))
+    setAnswers((prev) =>
+      prev.map((answer) => {
+        const value = draftValues.get(answer.questionId)
+        return value === undefined || fileQuestionIds.has(answer.questionId) ? answer : { ...answer, value }
+      }),
+    )
+    if (survey) setViewMode(getPagedViewMode(survey))
+    setCurrentQuestionIndex(savedDraft.currentQuestionIndex)
+    acceptDraft()
+    showTooltipMessage("Your previous answers have been restored", "success")
+  }
+
   const handlePrevQuestion = () => {
     if (currentQuestionIndex > 0) {
       setCurrentQuestionIndex(currentQuestionIndex - 1)
@@ -457,8 +880,67 @@ export default function SurveyResponse() {
     }
   }
 
+  // Leave the review step and go back to a question to change its answer
+  const handleEditAnswer = (index: number) => {
+    setIsReviewing(false)
+    if (survey) setViewMode(getPagedViewMode(survey))
+    setCurrentQuestionIndex(index)
+    setUserCompletedLastQuestion(false)
+  }
+
+  // Required questions in a section must be answered before moving on to the next one
+  const handleNextSection = () => {
+    const page = sectionPages[currentPageIndex]
+    if (!page) return
+
+    const unansweredRequired = page.questions.filter(
+      (question) =>
+        question.required && !isQuestionComplete(question, answers.find((a) => a.questionId === question.id)?.value),
+    )
+    if (unansweredRequired.length > 0) {
+      showTooltipMessage(
+        `Please answer the required questions in this section (${unansweredRequired.length} remaining)`,
+        "error",
+      )
+      questionRefs.current[questionPath.indexOf(unansweredRequired[0])]?.scrollIntoView({
+        behavior: "smooth",
+        block: "center",
+      })
+      return
+    }
+
+    const invalidAnswers = page.questions.filter((question) => getAnswerError(question) !== null)
+    if (invalidAnswers.length > 0) {
+      showAnswerErrors(invalidAnswers)
+      showTooltipMessage(
+        `Please fix the highlighted answers in this section (${invalidAnswers.length} remaining)`,
+        "error",
+      )
+      questionRefs.current[questionPath.indexOf(invalidAnswers[0])]?.scrollIntoView({
+        behavior: "smooth",
+        block: "center",
+      })
+      return
+    }
+
+    const nextPage = sectionPages[currentPageIndex + 1]
+    if (nextPage) {
+      setCurrentQuestionIndex(questionPath.indexOf(nextPage.questions[0]))
+      window.scrollTo({ top: 0, behavior: "smooth" })
+    }
+  }
+
+  const handlePrevSection = () => {
+    const prevPage = sectionPages[currentPageIndex - 1]
+    if (!prevPage) return
+
+    setCurrentQuestionIndex(questionPath.indexOf(prevPage.questions[0]))
+    window.scrollTo({ top: 0, behavior: "smooth" })
+  }
+
   const toggleViewMode = () => {
-    setViewMode(viewMode === "single" ? "all" : "single")
+    if (!survey) return
+    setViewMode(viewMode === "all" ? getPagedViewMode(survey) : "all")
     setShowCompletionMessage(false) // Hide completion message when changing view mode
     setUserCompletedLastQuestion(false) // Reset the flag when changing view mode
   }
@@ -479,34 +961,110 @@ export default function SurveyResponse() {
   // Get an icon for a question type
   const getQuestionIcon = (type: QuestionType) => {
     switch (type) {
-      case QuestionType.Rating:
+      case "likert_scale":
         return <Star className="h-5 w-5" />
-      case QuestionType.MultipleChoice:
+      case "multiple_choice":
         return <CheckCircle className="h-5 w-5" />
-      case QuestionType.Text:
+      case "open_ended":
         return <MessageSquare className="h-5 w-5" />
-      case QuestionType.Checkbox:
+      case "checkbox":
         return <CheckSquare className="h-5 w-5" />
-      case QuestionType.NPS:
+      case "linear_scale":
         return <ThumbsUp className="h-5 w-5" />
-      case QuestionType.Date:
+      case "date":
         return <Calendar className="h-5 w-5" />
-      case QuestionType.Time:
+      case "time":
         return <Clock3 className="h-5 w-5" />
-      case QuestionType.ClosedEnded:
+      case "closed_ended":
         return <MessageCircle className="h-5 w-5" />
+      case "ranking":
+        return <ListOrdered className="h-5 w-5" />
+      case "nps":
+        return <Gauge className="h-5 w-5" />
+      case "file_upload":
+        return <Paperclip className="h-5 w-5" />
       default:
         return <HelpCircle className="h-5 w-5" />
     }
   }
 
+  // Choice options with pictures, as a grid of cards. Works for single and multiple choice.
+  const renderPictureChoices = (question: Question, answer: Answer | undefined) => {
+    const isMultiple = question.type === "checkbox"
+    const selected = Array.isArray(answer?.value) ? answer.value : [answer?.value]
+
+    return (
+      <motion.div
+        className="grid grid-cols-2 sm:grid-cols-3 gap-4"
+        role={isMultiple ? "group" : "radiogroup"}
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2 }}
+      >
+        {question.options?.map((option, optionIndex) => {
+          const isSelected = selected.includes(option)
+          const image = question.optionImages?.[optionIndex]
+
+          return (
+            <motion.button
+              type="button"
+              key={optionIndex}
+              role={isMultiple ? "checkbox" : "radio"}
+              aria-checked={isSelected}
+              onClick={() =>
+                isMultiple
+                  ? handleCheckboxChange(question.id, option, !isSelected)
+                  : handleMultipleChoiceChange(question.id, option)
+              }
+              className={`relative text-left rounded-2xl border-2 overflow-hidden transition-all bg-white ${
+                isSelected ? "border-blue-500 shadow-md ring-4 ring-blue-100" : "border-gray-200 hover:border-gray-300"
+              }`}
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              transition={{ delay: 0.1 + optionIndex * 0.05 }}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              {image ? (
+                <img
+                  src={getProxiedImageUrl(image)}
+                  alt={pipe(option)}
+                  className="h-36 w-full object-cover"
+                  onError={(e) => {
+                    e.currentTarget.src = "/placeholder.svg"
+                  }}
+                />
+              ) : (
+                <div className="h-36 bg-gray-100" />
+              )}
+              <div className="flex items-center p-3">
+                <span
+                  className={`w-5 h-5 border-2 mr-3 flex-shrink-0 flex items-center justify-center ${
+                    isMultiple ? "rounded-md" : "rounded-full"
+                  } ${isSelected ? "border-blue-500 bg-blue-500" : "border-gray-300"}`}
+                >
+                  {isSelected && <span className={`w-2 h-2 bg-white ${isMultiple ? "rounded-sm" : "rounded-full"}`} />}
+                </span>
+                <span className={`text-gray-700 ${isSelected ? "font-medium" : ""}`}>{pipe(option)}</span>
+              </div>
+            </motion.button>
+          )
+        })}
+      </motion.div>
+    )
+  }
+
   // Render different input types based on question type
   const renderQuestionInput = (question: Question, index: number) => {
     // Find the answer by questionId, not by index
     const answer = answers.find((a) => a.questionId === question.id)
 
+    if (isChoiceQuestion(question.type) && question.optionImages) {
+      return renderPictureChoices(question, answer)
+    }
+
     switch (question.type) {
-      case QuestionType.Text:
+      case "open_ended":
         return (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -520,7 +1078,7 @@ export default function SurveyResponse() {
               placeholder="Share your thoughts here..."
               value={(answer?.value as string) || ""}
               onChange={(e) => handleTextChange(question.id, e.target.value)}
-              required={question.isRequired}
+              required={question.required}
             />
             <div className="absolute bottom-3 right-3 text-xs text-gray-400">
               {((answer?.value as string) || "").length} characters
@@ -528,7 +1086,7 @@ export default function SurveyResponse() {
           </motion.div>
         )
 
-      case QuestionType.ClosedEnded:
+      case "closed_ended":
         return (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -542,7 +1100,7 @@ export default function SurveyResponse() {
               placeholder="Your brief answer"
               value={(answer?.value as string) || ""}
               onChange={(e) => handleTextChange(question.id, e.target.value)}
-              required={question.isRequired}
+              required={question.required}
               maxLength={100} // Limit the length for closed-ended responses
             />
             <div className="absolute bottom-3 right-3 text-xs text-gray-400">
@@ -551,7 +1109,7 @@ export default function SurveyResponse() {
           </motion.div>
         )
 
-      case QuestionType.MultipleChoice:
+      case "multiple_choice":
         return (
           <motion.div
             className="space-y-4"
@@ -595,16 +1153,16 @@ export default function SurveyResponse() {
                     checked={answer?.value === option}
                     onChange={() => handleMultipleChoiceChange(question.id, option)}
                     className="sr-only"
-                    required={question.isRequired}
+                    required={question.required}
                   />
-                  <span className={`text-gray-700 ${answer?.value === option ? "font-medium" : ""}`}>{option}</span>
+                  <span className={`text-gray-700 ${answer?.value === option ? "font-medium" : ""}`}>{pipe(option)}</span>
                 </label>
               </motion.div>
             ))}
           </motion.div>
         )
 
-      case QuestionType.Checkbox:
+      case "checkbox":
         return (
           <motion.div
             className="space-y-4"
@@ -656,7 +1214,7 @@ export default function SurveyResponse() {
                       onChange={(e) => handleCheckboxChange(question.id, option, e.target.checked)}
                       className="sr-only"
                     />
-                    <span className={`text-gray-700 ${isChecked ? "font-medium" : ""}`}>{option}</span>
+                    <span className={`text-gray-700 ${isChecked ? "font-medium" : ""}`}>{pipe(option)}</span>
                   </label>
                 </motion.div>
               )
@@ -664,7 +1222,7 @@ export default function SurveyResponse() {
           </motion.div>
         )
 
-      case QuestionType.Rating:
+      case "likert_scale":
         return (
           <motion.div
             className="w-full"
@@ -673,7 +1231,7 @@ export default function SurveyResponse() {
             transition={{ delay: 0.2 }}
           >
             <div className="flex justify-between flex-wrap gap-3 py-6">
-              {question.options?.map((option, optionIndex) => (
+              {getScalePoints(question).map((option, optionIndex) => (
                 <motion.div
                   key={optionIndex}
                   className="flex flex-col items-center gap-3"
@@ -701,7 +1259,7 @@ export default function SurveyResponse() {
           </motion.div>
         )
 
-      case QuestionType.NPS:
+      case "linear_scale":
         return (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -710,7 +1268,7 @@ export default function SurveyResponse() {
             className="py-6"
           >
             <div className="flex flex-wrap gap-2 mb-4 justify-center">
-              {question.options?.map((option, optionIndex) => {
+              {getScalePoints(question).map((option, optionIndex) => {
                 // Determine color based on NPS range
                 const getButtonStyle = () => {
                   if (answer?.value === option) {
@@ -760,7 +1318,48 @@ export default function SurveyResponse() {
           </motion.div>
         )
 
-      case QuestionType.Date:
+      case "nps":
+        return (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.2 }}
+            className="py-6"
+          >
+            <div role="radiogroup" aria-label={pipe(question.question)} className="grid grid-cols-11 gap-1 sm:gap-2">
+              {NPS_POINTS.map((point, pointIndex) => {
+                const styles = npsButtonStyles[getNpsCategory(pointIndex)]
+                const isSelected = answer?.value === point
+
+                return (
+                  <motion.button
+                    type="button"
+                    key={point}
+                    role="radio"
+                    aria-checked={isSelected}
+                    className={`aspect-square min-w-0 flex items-center justify-center rounded-xl text-base sm:text-lg font-bold border-2 shadow-sm transition-all ${
+                      isSelected ? `${styles.selected} scale-110 shadow-lg` : `bg-white ${styles.idle}`
+                    }`}
+                    onClick={() => handleMultipleChoiceChange(question.id, point)}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.1 + pointIndex * 0.03 }}
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                  >
+                    {point}
+                  </motion.button>
+                )
+              })}
+            </div>
+            <div className="flex justify-between text-sm text-gray-600 px-1 mt-4 font-medium">
+              <span>Not at all likely</span>
+              <span>Extremely likely</span>
+            </div>
+          </motion.div>
+        )
+
+      case "date":
         return (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -776,12 +1375,12 @@ export default function SurveyResponse() {
               className="pl-12 p-5 w-full border-2 border-gray-200 rounded-2xl focus:ring-4 focus:ring-blue-100 focus:border-blue-500 transition-all shadow-sm"
               value={(answer?.value as string) || ""}
               onChange={(e) => handleTextChange(question.id, e.target.value)}
-              required={question.isRequired}
+              required={question.required}
             />
           </motion.div>
         )
 
-      case QuestionType.Time:
+      case "time":
         return (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -797,7 +1396,90 @@ export default function SurveyResponse() {
               className="pl-12 p-5 w-full border-2 border-gray-200 rounded-2xl focus:ring-4 focus:ring-blue-100 focus:border-blue-500 transition-all shadow-sm"
               value={(answer?.value as string) || ""}
               onChange={(e) => handleTextChange(question.id, e.target.value)}
-              required={question.isRequired}
+              required={question.required}
+            />
+          </motion.div>
+        )
+
+      case "matrix": {
+        const cells = Array.isArray(answer?.value) ? answer.value : []
+        const multiple = Boolean(question.matrix?.multiplePerRow)
+
+        return (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.2 }}
+            className="overflow-x-auto"
+          >
+            <table className="min-w-full border-separate border-spacing-y-2">
+              <thead>
+                <tr>
+                  <th />
+                  {question.matrix?.columns.map((column, columnIndex) => (
+                    <th key={columnIndex} className="px-2 pb-2 text-sm font-medium text-gray-600 text-center align-bottom">
+                      {column}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {question.matrix?.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex} className="bg-gray-50">
+                    <th scope="row" className="py-4 px-4 text-left font-medium text-gray-700 rounded-l-2xl">
+                      {row}
+                    </th>
+                    {question.matrix?.columns.map((column, columnIndex) => {
+                      const isSelected = cells.includes(toMatrixCell(row, column))
+
+                      return (
+                        <td key={columnIndex} className="px-2 py-4 text-center last:rounded-r-2xl">
+                          <button
+                            type="button"
+                            role={multiple ? "checkbox" : "radio"}
+                            aria-checked={isSelected}
+                            aria-label={`${row}: ${column}`}
+                            onClick={() => handleMatrixChange(question, row, column)}
+                            className={`w-7 h-7 border-2 transition-all inline-flex items-center justify-center ${
+                              multiple ? "rounded-lg" : "rounded-full"
+                            } ${isSelected ? "border-blue-500 bg-blue-500" : "border-gray-300 bg-white hover:border-blue-300"}`}
+                          >
+                            {isSelected && (
+                              <span className={`w-2.5 h-2.5 bg-white ${multiple ? "rounded-sm" : "rounded-full"}`} />
+                            )}
+                          </button>
+                        </td>
+                      )
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </motion.div>
+        )
+      }
+
+      case "file_upload":
+        return (
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.2 }}>
+            <FileUploadInput
+              settings={question.fileUpload || defaultFileUploadSettings}
+              value={Array.isArray(answer?.value) ? answer.value : []}
+              files={pendingFiles[question.id] || []}
+              onChange={(names, files) => handleFilesChange(question.id, names, files)}
+              progress={uploadProgress}
+            />
+          </motion.div>
+        )
+
+      case "ranking":
+        return (
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.2 }}>
+            <RankingInput
+              options={question.options || []}
+              value={Array.isArray(answer?.value) ? answer.value : []}
+              onChange={(ranking) => handleRankingChange(question.id, ranking)}
+              formatOption={pipe}
             />
           </motion.div>
         )
@@ -854,6 +1536,34 @@ export default function SurveyResponse() {
     )
   }
 
+  if (pendingSync) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-amber-50 via-white to-blue-50 flex items-center justify-center p-4">
+        <motion.div
+          className="text-center bg-white p-10 rounded-2xl shadow-xl border border-amber-100 max-w-md"
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          transition={{ duration: 0.5 }}
+        >
+          <div className="w-24 h-24 bg-amber-100 rounded-full flex items-center justify-center mx-auto mb-6">
+            <CloudOff className="h-12 w-12 text-amber-500" />
+          </div>
+          <h2 className="text-3xl font-bold text-gray-800 mb-4">Pending Sync</h2>
+          <p className="text-gray-700 mb-4 text-xl">You appear to be offline, so your responses were saved on this device.</p>
+          <p className="text-gray-600 mb-8">
+            They will be sent automatically once you are back online. Please keep using this browser until then.
+          </p>
+          <button
+            onClick={() => navigate("/surveys")}
+            className="px-8 py-4 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-xl hover:opacity-90 transition-all shadow-lg font-medium text-lg"
+          >
+            Return to Surveys
+          </button>
+        </motion.div>
+      </div>
+    )
+  }
+
   if (success) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-green-50 via-white to-teal-50 flex items-center justify-center p-4">
@@ -886,7 +1596,9 @@ export default function SurveyResponse() {
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: 0.4 }}
           >
-            Your responses have been submitted successfully.
+            {editingResponse
+              ? "Your responses have been updated successfully."
+              : "Your responses have been submitted successfully."}
           </motion.p>
           <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ delay: 0.6 }}>
             <p className="text-gray-600 mb-6">Redirecting you back to the surveys page...</p>
@@ -934,17 +1646,317 @@ export default function SurveyResponse() {
     )
   }
 
+  // The eligibility check knows about responses the survey list count has not caught up with
+  const isOverQuota = eligibility?.canRespond === false && eligibility.reason !== "already_responded"
+  if (surveyStatus !== "open" || isOverQuota) {
+    const closedReason = isOverQuota && eligibility.reason === "quota_reached" ? "limit" : getClosedReason(survey)
+    const { title, message } =
+      surveyStatus === "scheduled" && !isOverQuota
+        ? {
+            title: "This survey isn't open yet",
+            message: survey.schedule.opensAt
+              ? `It opens on ${formatSurveyDate(survey.schedule.opensAt)}. Please come back then.`
+              : "Please come back later.",
+          }
+        : surveyStatus === "closed" || isOverQuota
+          ? {
+              title: "This survey is closed",
+              message:
+                closedReason === "limit"
+                  ? "It has received all the responses it needs. Thank you for your interest!"
+                  : closedReason === "deadline" && survey.schedule.closesAt
+                    ? `It stopped accepting responses on ${formatSurveyDate(survey.schedule.closesAt)}.`
+                    : "It is no longer accepting responses.",
+            }
+          : {
+              title: "This survey isn't available",
+              message:
+                surveyStatus === "draft"
+                  ? "It hasn't been published yet."
+                  : "It has been archived and no longer accepts responses.",
+            }
+
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center p-4">
+        <div className="text-center bg-white p-8 rounded-2xl shadow-xl border border-blue-100 max-w-md">
+          <div className="w-20 h-20 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-6">
+            {surveyStatus === "scheduled" && !isOverQuota ? (
+              <CalendarClock className="h-10 w-10 text-blue-500" />
+            ) : (
+              <Lock className="h-10 w-10 text-blue-500" />
+            )}
+          </div>
+          <p className="text-sm text-gray-500 mb-2">{survey.title}</p>
+          <h2 className="text-2xl font-bold text-gray-800 mb-4">{title}</h2>
+          <p className="text-lg text-gray-700 mb-6">{message}</p>
+          <button
+            onClick={() => navigate("/surveys")}
+            className="px-6 py-3 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-xl hover:opacity-90 transition-all shadow-md"
+          >
+            Back to surveys
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  if (survey.settings.requireSignIn && !isAuthLoading && !user) {
+    return <Navigate to="/login" state={{ from: location }} replace />
+  }
+
+  if (isCheckingEligibility) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center">
+        <Loader2 className="h-10 w-10 text-blue-600 animate-spin" />
+      </div>
+    )
+  }
+
+  if (isWithdrawn) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center p-4">
+        <div className="text-center bg-white p-8 rounded-2xl shadow-xl border border-blue-100 max-w-md">
+          <div className="w-20 h-20 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-6">
+            <Trash2 className="h-10 w-10 text-blue-500" />
+          </div>
+          <p className="text-sm text-gray-500 mb-2">{survey.title}</p>
+          <h2 className="text-2xl font-bold text-gray-800 mb-4">Your response has been withdrawn</h2>
+          <p className="text-lg text-gray-700 mb-6">Your answers have been deleted from this survey.</p>
+          <div className="flex flex-col sm:flex-row justify-center gap-4">
+            <button
+              onClick={() => setIsWithdrawn(false)}
+              className="px-6 py-3 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-xl hover:opacity-90 transition-all shadow-md"
+            >
+              Respond again
+            </button>
+            <button
+              onClick={() => navigate("/surveys")}
+              className="px-6 py-3 bg-gray-600 text-white rounded-xl hover:bg-gray-700 transition-colors shadow-md"
+            >
+              Back to surveys
+            </button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  // With review allowed the earlier response is pre-filled instead (see the effect above)
+  if (
+    eligibility?.reason === "already_responded" &&
+    !editingResponse &&
+    !(survey.settings.allowReview && eligibility.responseId)
+  ) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-green-50 via-white to-teal-50 flex items-center justify-center p-4">
+        <div className="text-center bg-white p-8 rounded-2xl shadow-xl border border-green-100 max-w-md">
+          <div className="w-20 h-20 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-6">
+            <UserCheck className="h-10 w-10 text-green-600" />
+          </div>
+          <p className="text-sm text-gray-500 mb-2">{survey.title}</p>
+          <h2 className="text-2xl font-bold text-gray-800 mb-4">You've already responded</h2>
+          <p className="text-lg text-gray-700 mb-6">Thank you! Each person can only respond to this survey once.</p>
+          <div className="flex flex-col sm:flex-row justify-center gap-4">
+            <button
+              onClick={() => navigate("/surveys")}
+              className="px-6 py-3 bg-gray-600 text-white rounded-xl hover:bg-gray-700 transition-colors shadow-md"
+            >
+              Back to surveys
+            </button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  const theme = themeStyles[survey.settings.theme]
+  // The clamp effect runs after this render when an answer shortens the path
+  const activeQuestion = questionPath[Math.min(currentQuestionIndex, questionPath.length - 1)]
+  const submitLabel = survey.settings.allowReview && !isReviewing ? "Review Responses" : "Submit Responses"
+  const currentPage = sectionPages[currentPageIndex]
+  // Section headings in the all-questions view, keyed by the first question of each section
+  const sectionStarts = new Map(
+    viewMode === "all" && hasSectionPages(survey.sections)
+      ? sectionPages.map((page, pageIndex) => [page.questions[0].id, { section: page.section, pageIndex }] as const)
+      : [],
+  )
+
+  // A question with its number, text, image and answer input, as shown in the section and all-questions views
+  const renderQuestionCard = (question: Question, index: number, delay: number) => (
+    <motion.div
+      key={question.id}
+      ref={(el) => (questionRefs.current[index] = el)}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay }}
+      className="p-8 bg-white rounded-2xl shadow-lg border border-gray-100"
+    >
+      <div className="flex flex-col sm:flex-row sm:items-start gap-6 mb-6">
+        <div
+          className={`w-12 h-12 rounded-xl ${getQuestionColor(index)} flex items-center justify-center text-white font-bold text-lg shadow-md`}
+        >
+          {index + 1}
+        </div>
+        <div className="flex-1">
+          <h3 className="text-2xl font-bold text-gray-800 mb-2 flex items-center">
+            {pipe(question.question)}
+            {question.required && <span className="text-red-500 ml-2 text-lg">*</span>}
+          </h3>
+          {question.description && <p className="text-gray-600 text-lg">{pipe(question.description)}</p>}
+        </div>
+      </div>
+
+      {question.imageUrl && (
+        <div className="mb-6 rounded-xl overflow-hidden shadow-md">
+          <img
+            src={getProxiedImageUrl(question.imageUrl) || "/placeholder.svg"}
+            alt={`Image for ${pipe(question.question)}`}
+            className="w-full max-h-80 object-contain"
+            onError={(e) => {
+              console.error("Failed to load question image:", question.imageUrl)
+              e.currentTarget.src = "/placeholder.svg"
+            }}
+          />
+        </div>
+      )}
+
+      <div className="mt-6">
+        {renderQuestionInput(question, index)}
+        {renderAnswerError(question)}
+      </div>
+    </motion.div>
+  )
+
+  const renderSectionIntro = (section: SurveySection, pageIndex: number) => (
+    <motion.div
+      key={section.id}
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="p-8 bg-white rounded-2xl shadow-lg border border-gray-100"
+    >
+      <div className="flex items-center text-sm font-medium text-blue-600 mb-2">
+        <Layers className="h-4 w-4 mr-2" />
+        Section {pageIndex + 1} of {sectionPages.length}
+      </div>
+      {section.title && <h2 className="text-2xl font-bold text-gray-800">{section.title}</h2>}
+      {section.description && <p className="mt-2 text-gray-600 text-lg whitespace-pre-line">{section.description}</p>}
+    </motion.div>
+  )
+
+  const renderReviewStep = () => (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="p-8 bg-white rounded-2xl shadow-lg border border-gray-100 mb-16"
+    >
+      <h3 className="text-2xl font-bold text-gray-800 mb-2">Review your responses</h3>
+      <p className="text-gray-600 mb-8 text-lg">Check your answers before submitting. You can still change any of them.</p>
+
+      <div className="divide-y divide-gray-100">
+        {questionPath.map((question, index) => {
+          const answer = pipe(formatAnswer(answers.find((a) => a.questionId === question.id)?.value))
+
+          return (
+            <div key={question.id} className="py-4 flex items-start justify-between gap-4">
+              <div>
+                <p className="font-medium text-gray-800">
+                  {index + 1}. {pipe(question.question)}
+                  {question.required && <span className="text-red-500 ml-1">*</span>}
+                </p>
+                <p className={`mt-1 ${answer ? "text-gray-700" : "text-gray-400 italic"}`}>{answer || "No answer"}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleEditAnswer(index)}
+                className="px-4 py-2 text-sm bg-white border border-blue-200 text-blue-700 rounded-full hover:bg-blue-50 transition-colors shadow-sm font-medium"
+              >
+                Edit
+              </button>
+            </div>
+          )
+        })}
+      </div>
+
+      {submitError && (
+        <div className="mt-6 p-4 bg-red-50 text-red-700 rounded-xl border border-red-200 flex items-center">
+          <AlertCircle className="h-5 w-5 mr-3 text-red-500" />
+          <span className="font-medium">{submitError}</span>
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row justify-between gap-4 mt-10">
+        <button
+          type="button"
+          onClick={() => setIsReviewing(false)}
+          className="px-6 py-4 bg-white border border-gray-200 text-gray-700 rounded-xl hover:bg-gray-50 transition-all shadow-md font-medium flex items-center justify-center"
+        >
+          <ChevronLeft className="h-5 w-5 mr-2" />
+          Back to questions
+        </button>
+        <motion.button
+          type="submit"
+          disabled={submitting}
+          className={`px-8 py-4 ${theme.accent} text-white rounded-xl hover:opacity-90 transition-all shadow-lg flex items-center justify-center font-medium text-lg ${
+            submitting ? "opacity-70 cursor-not-allowed" : ""
+          }`}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          {submitting ? (
+            <>
+              <Loader2 className="h-5 w-5 mr-3 animate-spin" />
+              {submittingLabel}
+            </>
+          ) : (
+            <>
+              Submit Responses
+              <Send className="h-5 w-5 ml-3" />
+            </>
+          )}
+        </motion.button>
+      </div>
+    </motion.div>
+  )
+
   return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 pb-16">
+    <div className={`min-h-screen ${theme.page} pb-16`}>
       {/* Progress bar */}
-      <div className="fixed top-0 left-0 right-0 h-2 bg-gray-200 z-50">
-        <motion.div
-          className="h-full bg-gradient-to-r from-blue-500 to-purple-600"
-          initial={{ width: 0 }}
-          animate={{ width: `${progress}%` }}
-          transition={{ duration: 0.5 }}
-        />
-      </div>
+      {survey.settings.showProgressBar &&
+        (viewMode === "section" ? (
+          // One segment per section, sized by its number of questions and filled as they are answered
+          <div className="fixed top-0 left-0 right-0 h-2 flex gap-0.5 bg-white z-50">
+            {sectionPages.map((page, pageIndex) => {
+              const answeredCount = page.questions.filter((question) =>
+                isAnswered(answers.find((a) => a.questionId === question.id)?.value),
+              ).length
+
+              return (
+                <div
+                  key={page.section.id}
+                  className={`h-full ${pageIndex === currentPageIndex ? "bg-gray-300" : "bg-gray-200"}`}
+                  style={{ flexGrow: page.questions.length }}
+                  title={page.section.title || `Section ${pageIndex + 1}`}
+                >
+                  <motion.div
+                    className={`h-full ${theme.accent}`}
+                    initial={{ width: 0 }}
+                    animate={{ width: `${(answeredCount / page.questions.length) * 100}%` }}
+                    transition={{ duration: 0.5 }}
+                  />
+                </div>
+              )
+            })}
+          </div>
+        ) : (
+          <div className="fixed top-0 left-0 right-0 h-2 bg-gray-200 z-50">
+            <motion.div
+              className={`h-full ${theme.accent}`}
+              initial={{ width: 0 }}
+              animate={{ width: `${progress}%` }}
+              transition={{ duration: 0.5 }}
+            />
+          </div>
+        ))}
 
       {/* Tooltip */}
       <AnimatePresence>
@@ -1022,7 +2034,7 @@ export default function SurveyResponse() {
                     ) : progress === 100 ? (
                       <span className="text-green-600">All questions answered</span>
                     ) : (
-                      <span className="text-gray-600">{survey.questions.length} questions total</span>
+                      <span className="text-gray-600">{questionPath.length} questions total</span>
                     )}
                   </span>
                 </div>
@@ -1030,7 +2042,7 @@ export default function SurveyResponse() {
                   onClick={toggleViewMode}
                   className="px-4 py-2 bg-white border border-blue-200 text-blue-700 rounded-full hover:bg-blue-50 transition-colors shadow-sm font-medium flex items-center justify-center"
                 >
-                  {viewMode === "single" ? (
+                  {viewMode !== "all" ? (
                     <>
                       <Eye className="h-4 w-4 mr-2" />
                       View all questions
@@ -1038,7 +2050,7 @@ export default function SurveyResponse() {
                   ) : (
                     <>
                       <ArrowLeftRight className="h-4 w-4 mr-2" />
-                      View one question at a time
+                      {getPagedViewMode(survey) === "section" ? "View one section at a time" : "View one question at a time"}
                     </>
                   )}
                 </button>
@@ -1047,8 +2059,83 @@ export default function SurveyResponse() {
           </motion.div>
         </div>
 
+        {editingResponse && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mb-8 p-6 bg-white rounded-2xl shadow-lg border border-green-100 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4"
+          >
+            <div className="flex items-center">
+              <div className="w-10 h-10 rounded-full bg-green-100 flex items-center justify-center mr-3 flex-shrink-0">
+                <UserCheck className="h-5 w-5 text-green-600" />
+              </div>
+              <div>
+                <p className="font-medium text-gray-800">You're editing the response you already submitted</p>
+                <p className="text-sm text-gray-500">
+                  Submitted {new Date(editingResponse.updatedAt || editingResponse.submittedAt).toLocaleString()}
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-3">
+              {!survey.settings.onePerRespondent && (
+                <button
+                  type="button"
+                  onClick={handleStartNewResponse}
+                  className="px-4 py-2 bg-white border border-gray-200 text-gray-700 rounded-xl hover:bg-gray-50 transition-all shadow-sm font-medium"
+                >
+                  New response
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={handleWithdrawResponse}
+                disabled={submitting}
+                className="px-4 py-2 bg-white border border-red-200 text-red-600 rounded-xl hover:bg-red-50 transition-all shadow-sm font-medium"
+              >
+                Withdraw response
+              </button>
+            </div>
+          </motion.div>
+        )}
+
+        {savedDraft && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mb-8 p-6 bg-white rounded-2xl shadow-lg border border-blue-100 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4"
+          >
+            <div className="flex items-center">
+              <div className="w-10 h-10 rounded-full bg-blue-100 flex items-center justify-center mr-3 flex-shrink-0">
+                <RotateCcw className="h-5 w-5 text-blue-600" />
+              </div>
+              <div>
+                <p className="font-medium text-gray-800">You have unfinished answers for this survey</p>
+                <p className="text-sm text-gray-500">Last saved {new Date(savedDraft.updatedAt).toLocaleString()}</p>
+              </div>
+            </div>
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={clearDraft}
+                className="px-4 py-2 bg-white border border-gray-200 text-gray-700 rounded-xl hover:bg-gray-50 transition-all shadow-sm font-medium"
+              >
+                Start over
+              </button>
+              <button
+                type="button"
+                onClick={handleRestoreDraft}
+                className={`px-4 py-2 ${theme.accent} text-white rounded-xl hover:opacity-90 transition-all shadow-md font-medium`}
+              >
+                Resume
+              </button>
+            </div>
+          </motion.div>
+        )}
+
         <form onSubmit={handleSubmit}>
-          {viewMode === "single" ? (
+          {isReviewing ? (
+            renderReviewStep()
+          ) : viewMode === "single" ? (
             <div className="mb-8">
               <motion.div
                 key={currentQuestionIndex}
@@ -1057,7 +2144,7 @@ export default function SurveyResponse() {
                 exit={{ opacity: 0, x: -50 }}
                 className="p-8 bg-white rounded-2xl shadow-lg border border-gray-100"
               >
-                {showCompletionMessage && currentQuestionIndex === survey.questions.length - 1 ? (
+                {showCompletionMessage && currentQuestionIndex === questionPath.length - 1 ? (
                   <motion.div
                     className="text-center py-8"
                     initial={{ opacity: 0, scale: 0.9 }}
@@ -1091,7 +2178,7 @@ export default function SurveyResponse() {
                     <motion.button
                       type="submit"
                       disabled={submitting}
-                      className={`px-8 py-4 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-xl hover:opacity-90 transition-all shadow-lg flex items-center mx-auto font-medium text-lg ${
+                      className={`px-8 py-4 ${theme.accent} text-white rounded-xl hover:opacity-90 transition-all shadow-lg flex items-center mx-auto font-medium text-lg ${
                         submitting ? "opacity-70 cursor-not-allowed" : ""
                       }`}
                       initial={{ opacity: 0, y: 20 }}
@@ -1103,11 +2190,11 @@ export default function SurveyResponse() {
                       {submitting ? (
                         <>
                           <Loader2 className="h-5 w-5 mr-3 animate-spin" />
-                          Submitting...
+                          {submittingLabel}
                         </>
                       ) : (
                         <>
-                          Submit Responses
+                          {submitLabel}
                           <Send className="h-5 w-5 ml-3" />
                         </>
                       )}
@@ -1122,33 +2209,33 @@ export default function SurveyResponse() {
                         >
                           {currentQuestionIndex + 1}
                         </div>
-                        <span className="text-sm font-medium text-gray-500">of {survey.questions.length}</span>
+                        <span className="text-sm font-medium text-gray-500">of {questionPath.length}</span>
                       </div>
                       <div className="flex-1">
                         <h3 className="text-2xl font-bold text-gray-800 mb-2 flex items-center">
-                          {survey.questions[currentQuestionIndex].title}
-                          {survey.questions[currentQuestionIndex].isRequired && (
+                          {pipe(activeQuestion.question)}
+                          {activeQuestion.required && (
                             <span className="text-red-500 ml-2 text-lg">*</span>
                           )}
                         </h3>
-                        {survey.questions[currentQuestionIndex].description && (
-                          <p className="text-gray-600 text-lg">{survey.questions[currentQuestionIndex].description}</p>
+                        {activeQuestion.description && (
+                          <p className="text-gray-600 text-lg">{pipe(activeQuestion.description)}</p>
                         )}
                       </div>
                     </div>
 
-                    {survey.questions[currentQuestionIndex].imageUrl && (
+                    {activeQuestion.imageUrl && (
                       <div className="mb-8 rounded-xl overflow-hidden shadow-md">
                         <img
                           src={
-                            getProxiedImageUrl(survey.questions[currentQuestionIndex].imageUrl) || "/placeholder.svg"
+                            getProxiedImageUrl(activeQuestion.imageUrl) || "/placeholder.svg"
                           }
-                          alt={`Image for ${survey.questions[currentQuestionIndex].title}`}
+                          alt={`Image for ${pipe(activeQuestion.question)}`}
                           className="w-full max-h-80 object-contain"
                           onError={(e) => {
                             console.error(
                               "Failed to load question image:",
-                              survey.questions[currentQuestionIndex].imageUrl,
+                              activeQuestion.imageUrl,
                             )
                             e.currentTarget.src = "/placeholder.svg"
                           }}
@@ -1157,7 +2244,8 @@ export default function SurveyResponse() {
                     )}
 
                     <div className="mt-6">
-                      {renderQuestionInput(survey.questions[currentQuestionIndex], currentQuestionIndex)}
+                      {renderQuestionInput(activeQuestion, currentQuestionIndex)}
+                      {renderAnswerError(activeQuestion)}
                     </div>
 
                     <div className="flex justify-between mt-10">
@@ -1178,11 +2266,11 @@ export default function SurveyResponse() {
                       <motion.button
                         type="button"
                         onClick={handleNextQuestion}
-                        className="px-6 py-3 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-xl hover:opacity-90 transition-all shadow-md flex items-center font-medium"
+                        className={`px-6 py-3 ${theme.accent} text-white rounded-xl hover:opacity-90 transition-all shadow-md flex items-center font-medium`}
                         whileHover={{ scale: 1.05 }}
                         whileTap={{ scale: 0.95 }}
                       >
-                        {currentQuestionIndex < survey.questions.length - 1 ? "Next" : "Complete"}
+                        {currentQuestionIndex < questionPath.length - 1 ? "Next" : "Complete"}
                         <ChevronRight className="h-5 w-5 ml-2" />
                       </motion.button>
                     </div>
@@ -1190,49 +2278,90 @@ export default function SurveyResponse() {
                 )}
               </motion.div>
             </div>
-          ) : (
+          ) : viewMode === "section" && currentPage ? (
             <div className="space-y-8">
-              {survey.questions.map((question, index) => (
+              {renderSectionIntro(currentPage.section, currentPageIndex)}
+
+              {currentPage.questions.map((question, positionInSection) =>
+                renderQuestionCard(question, questionPath.indexOf(question), positionInSection * 0.05),
+              )}
+
+              {submitError && (
                 <motion.div
-                  key={question.id}
-                  ref={(el) => (questionRefs.current[index] = el)}
+                  className="p-6 bg-red-50 text-red-700 rounded-xl border border-red-200 shadow-md"
                   initial={{ opacity: 0, y: 20 }}
                   animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: index * 0.05 }}
-                  className="p-8 bg-white rounded-2xl shadow-lg border border-gray-100"
                 >
-                  <div className="flex flex-col sm:flex-row sm:items-start gap-6 mb-6">
-                    <div
-                      className={`w-12 h-12 rounded-xl ${getQuestionColor(index)} flex items-center justify-center text-white font-bold text-lg shadow-md`}
-                    >
-                      {index + 1}
-                    </div>
-                    <div className="flex-1">
-                      <h3 className="text-2xl font-bold text-gray-800 mb-2 flex items-center">
-                        {question.title}
-                        {question.isRequired && <span className="text-red-500 ml-2 text-lg">*</span>}
-                      </h3>
-                      {question.description && <p className="text-gray-600 text-lg">{question.description}</p>}
-                    </div>
+                  <div className="flex items-center">
+                    <AlertCircle className="h-6 w-6 mr-3 text-red-500" />
+                    <span className="font-medium text-lg">{submitError}</span>
                   </div>
+                </motion.div>
+              )}
 
-                  {question.imageUrl && (
-                    <div className="mb-6 rounded-xl overflow-hidden shadow-md">
-                      <img
-                        src={getProxiedImageUrl(question.imageUrl) || "/placeholder.svg"}
-                        alt={`Image for ${question.title}`}
-                        className="w-full max-h-80 object-contain"
-                        onError={(e) => {
-                          console.error("Failed to load question image:", question.imageUrl)
-                          e.currentTarget.src = "/placeholder.svg"
-                        }}
-                      />
-                    </div>
-                  )}
+              <div className="flex justify-between gap-4 mt-10 mb-16">
+                <button
+                  type="button"
+                  onClick={handlePrevSection}
+                  disabled={currentPageIndex === 0}
+                  className={`px-6 py-3 rounded-xl transition-all flex items-center font-medium ${
+                    currentPageIndex === 0
+                      ? "text-gray-400 cursor-not-allowed"
+                      : "bg-white text-blue-600 border border-blue-200 hover:bg-blue-50 shadow-sm"
+                  }`}
+                >
+                  <ChevronLeft className="h-5 w-5 mr-2" />
+                  Previous section
+                </button>
 
-                  <div className="mt-6">{renderQuestionInput(question, index)}</div>
-                </motion.div>
-              ))}
+                {currentPageIndex < sectionPages.length - 1 ? (
+                  <motion.button
+                    type="button"
+                    onClick={handleNextSection}
+                    className={`px-6 py-3 ${theme.accent} text-white rounded-xl hover:opacity-90 transition-all shadow-md flex items-center font-medium`}
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                  >
+                    Next section
+                    <ChevronRight className="h-5 w-5 ml-2" />
+                  </motion.button>
+                ) : (
+                  <motion.button
+                    type="submit"
+                    disabled={submitting}
+                    className={`px-8 py-3 ${theme.accent} text-white rounded-xl hover:opacity-90 transition-all shadow-lg flex items-center justify-center font-medium ${
+                      submitting ? "opacity-70 cursor-not-allowed" : ""
+                    }`}
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                  >
+                    {submitting ? (
+                      <>
+                        <Loader2 className="h-5 w-5 mr-3 animate-spin" />
+                        {submittingLabel}
+                      </>
+                    ) : (
+                      <>
+                        {submitLabel}
+                        <Send className="h-5 w-5 ml-3" />
+                      </>
+                    )}
+                  </motion.button>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-8">
+              {questionPath.map((question, index) => {
+                const sectionStart = sectionStarts.get(question.id)
+
+                return (
+                  <Fragment key={question.id}>
+                    {sectionStart && renderSectionIntro(sectionStart.section, sectionStart.pageIndex)}
+                    {renderQuestionCard(question, index, index * 0.05)}
+                  </Fragment>
+                )
+              })}
 
               {submitError && (
                 <motion.div
@@ -1279,7 +2408,7 @@ export default function SurveyResponse() {
                 <motion.button
                   type="submit"
                   disabled={submitting}
-                  className={`px-8 py-4 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-xl hover:opacity-90 transition-all shadow-lg flex items-center justify-center font-medium text-lg ${
+                  className={`px-8 py-4 ${theme.accent} text-white rounded-xl hover:opacity-90 transition-all shadow-lg flex items-center justify-center font-medium text-lg ${
                     submitting ? "opacity-70 cursor-not-allowed" : ""
                   }`}
                   whileHover={{ scale: 1.05 }}
@@ -1288,11 +2417,11 @@ export default function SurveyResponse() {
                   {submitting ? (
                     <>
                       <Loader2 className="h-5 w-5 mr-3 animate-spin" />
-                      Submitting...
+                      {submittingLabel}
                     </>
                   ) : (
                     <>
-                      Submit Responses
+                      {submitLabel}
                       <Send className="h-5 w-5 ml-3" />
                     </>
                   )}
@@ -0,0 +1,577 @@
+import axios, { type AxiosRequestConfig, type InternalAxiosRequestConfig } from "axios"
+import type { QuestionType } from "../types/survey"
+import type { UserProfile } from "../types/user"
+
+// Every request goes through the same base URL. In production this is the `/api` prefix that
+// netlify.toml proxies to the backend; set VITE_API_URL to point a local build elsewhere.
+export const API_BASE_URL = import.meta.env.VITE_API_URL || "/api"
+
+// Branching rules point at other questions by their position in the survey, because question ids
+// are only assigned by the server once the survey is created
+export interface ApiQuestionCondition {
+  questionIndex: number
+  operator: string
+  value: string
+}
+
+export interface ApiJumpRule {
+  operator: string
+  value: string
+  targetIndex: number | null // null ends the survey
+}
+
+// Mirrors ValidationRule so the server can enforce the same checks on submitted answers
+export interface ApiValidationRule {
+  type: string
+  value: string
+  message: string
+}
+
+// Define interfaces for API requests and responses based on the actual API response
+export interface ApiQuestion {
+  id: string
+  title: string
+  description: string
+  type: number // API uses numeric types
+  options: string[]
+  isRequired: boolean
+  imageUrl?: string | null
+  optionImageUrls?: (string | null)[] | null // picture for each option of a choice question
+  displayConditions?: ApiQuestionCondition[] | null
+  jumpRules?: ApiJumpRule[] | null
+  validationRules?: ApiValidationRule[] | null
+  sectionIndex?: number | null // position in ApiSurvey.sections
+  rows?: string[] | null // matrix statements; the columns are in `options`
+  multiplePerRow?: boolean | null
+  allowedFileTypes?: string[] | null // MIME types accepted by a file upload question; empty accepts any
+  maxFileSizeMb?: number | null
+  maxFiles?: number | null
+}
+
+// A page of questions. Surveys saved before sections existed have none.
+export interface ApiSection {
+  id?: string
+  title: string
+  description: string
+}
+
+// Respondent-facing options stored with a survey. Older surveys were saved without them.
+export interface ApiSurveySettings {
+  requireSignIn?: boolean
+  shuffleQuestions?: boolean
+  showProgressBar?: boolean
+  allowReview?: boolean
+  onePerRespondent?: boolean
+  theme?: string
+}
+
+export interface ApiCollaborator {
+  id: string
+  userId?: string | null
+  email: string
+  role: string
+  addedAt: string
+}
+
+export interface ApiSurvey {
+  id: string
+  title: string
+  description: string
+  categories?: string[]
+  category?: string
+  numberOfQuestions?: number
+  numberOfResponses?: number
+  estimatedCompletionTime?: string
+  coverImageUrl?: string
+  settings?: ApiSurveySettings | null
+  createdBy: string
+  collaborators?: ApiCollaborator[]
+  sections?: ApiSection[] | null
+  questions: ApiQuestion[]
+  status?: string | null
+  isActive: boolean
+  opensAt?: string | null
+  closesAt?: string | null
+  maxResponses?: number | null
+  createdAt: string
+  updatedAt?: string
+}
+
+// A file stored for a file upload answer. `url` points at /api/files like survey images do.
+export interface ApiResponseFile {
+  fileName: string
+  contentType: string
+  size: number
+  url: string
+}
+
+export interface QuestionResponse {
+  questionId: string
+  answer?: string
+  // Checkbox options, the "row: column" cells picked in a matrix, a ranking from first to last, or
+  // the names of the files a file upload answer keeps
+  selectedOptions?: string[]
+  timeSpentSeconds?: number // time the question was on screen
+  files?: ApiResponseFile[] | null // set by the server on file upload answers
+}
+
+// A file picked for a file upload question, sent as its own part next to the response
+export interface ResponseFile {
+  questionId: string
+  file: File
+}
+
+export interface SurveyResponseDto {
+  surveyId: string
+  responses: QuestionResponse[]
+  startedAt: string
+  submittedAt: string
+  deviceToken?: string // lets the server apply per-respondent limits to anonymous respondents
+}
+
+// Whether the current respondent (by user id when signed in, otherwise by device token) may
+// submit. `responseId` points at their earlier response when they have already answered.
+export interface SurveyEligibility {
+  canRespond: boolean
+  reason?: "already_responded" | "quota_reached" | "closed" | null
+  responseId?: string | null
+}
+
+// An earlier version of a response, kept each time the respondent edits it
+export interface ApiResponseRevision {
+  submittedAt: string
+  revisedAt: string // when this version was replaced
+  responses: QuestionResponse[]
+}
+
+// A stored response as returned by GET /surveys/:id/responses
+export interface ApiSurveyResponse {
+  id: string
+  surveyId: string
+  respondentId?: string
+  startedAt?: string // missing on responses recorded before timing was tracked
+  submittedAt: string
+  updatedAt?: string | null // set once the respondent has edited the response
+  responses: QuestionResponse[]
+  revisions?: ApiResponseRevision[] | null // oldest first
+}
+
+// Answers a respondent has started but not submitted, saved so they can resume later
+export interface SurveyDraft {
+  surveyId: string
+  answers: { questionId: string; value: string | string[] }[]
+  currentQuestionIndex: number
+  updatedAt: string
+}
+
+export interface ApiUser {
+  id: string
+  username: string
+  email: string
+  roles: string[]
+  profile?: UserProfile | null
+}
+
+export interface LoginRequest {
+  email: string
+  password: string
+}
+
+export interface RegisterRequest {
+  username: string
+  email: string
+  password: string
+  profile?: UserProfile
+}
+
+export interface LoginResponse {
+  token: string
+  refreshToken?: string
+  id: string
+  username?: string
+  email: string
+  roles: string[]
+  profile?: UserProfile | null
+}
+
+// Map question types between UI and API
+export const questionTypeMap: Record<number, QuestionType> & Record<QuestionType, number> = {
+  // API to UI
+  0: "likert_scale",
+  1: "multiple_choice",
+  2: "open_ended",
+  3: "checkbox",
+  4: "linear_scale",
+  5: "date",
+  6: "time",
+  7: "closed_ended",
+  8: "matrix",
+  9: "ranking",
+  10: "nps",
+  11: "file_upload",
+
+  // UI to API
+  likert_scale: 0,
+  multiple_choice: 1,
+  open_ended: 2,
+  checkbox: 3,
+  linear_scale: 4,
+  date: 5,
+  time: 6,
+  closed_ended: 7,
+  matrix: 8,
+  ranking: 9,
+  nps: 10,
+  file_upload: 11,
+}
+
+// Error thrown by every API call. `status` is null when the request never got a response
+// (offline, DNS, CORS), which lets callers tell network failures apart from server rejections.
+export class ApiError extends Error {
+  status: number | null
+  data?: unknown
+
+  constructor(message: string, status: number | null, data?: unknown) {
+    super(message)
+    this.name = "ApiError"
+    this.status = status
+    this.data = data
+  }
+
+  get isUnauthorized() {
+    return this.status === 401
+  }
+
+  get isNotFound() {
+    return this.status === 404
+  }
+
+  get isNetworkError() {
+    return this.status === null
+  }
+}
+
+const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error
+
+  if (axios.isAxiosError(error)) {
+    if (!error.response) {
+      return new ApiError("Unable to reach the server. Please check your connection.", null)
+    }
+
+    const { status, data } = error.response
+    const serverMessage =
+      data && typeof data === "object" && "message" in data && typeof data.message === "string"
+        ? data.message
+        : null
+
+    if (status === 401) {
+      return new ApiError(serverMessage || "Authentication required. Please log in again.", status, data)
+    }
+
+    return new ApiError(serverMessage || `API error: ${status}`, status, data)
+  }
+
+  return new ApiError(error instanceof Error ? error.message : "Unexpected error", null)
+}
+
+// The token is owned by AuthContext; it registers a reader here so pages never attach headers themselves
+let authTokenProvider: () => string | null = () => null
+
+export const setAuthTokenProvider = (provider: () => string | null) => {
+  authTokenProvider = provider
+}
+
+// AuthContext also decides what a 401 on an authenticated request means: it either refreshes the
+// session and resolves with the new token, or ends the session and resolves with null
+let unauthorizedHandler: () => Promise<string | null> = async () => null
+
+export const setUnauthorizedHandler = (handler: () => Promise<string | null>) => {
+  unauthorizedHandler = handler
+}
+
+const REFRESH_PATH = "/auth/refresh"
+
+const apiClient = axios.create({ baseURL: API_BASE_URL })
+
+apiClient.interceptors.request.use((config) => {
+  const token = authTokenProvider()
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`
+  }
+  return config
+})
+
+// Every 401 on a request that carried a token goes through the unauthorized handler once; when it
+// comes back with a fresh token the request is replayed. Sign-in failures carry no token and are
+// passed straight to the caller.
+apiClient.interceptors.response.use(
+  (response) => response,
+  async (error) => {
+    const config = axios.isAxiosError(error)
+      ? (error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined)
+      : undefined
+
+    if (
+      config &&
+      error.response?.status === 401 &&
+      config.headers.Authorization &&
+      config.url !== REFRESH_PATH &&
+      !config._retried
+    ) {
+      config._retried = true
+      const token = await unauthorizedHandler()
+      if (token) {
+        config.headers.Authorization = `Bearer ${token}`
+        return apiClient(config)
+      }
+    }
+
+    return Promise.reject(toApiError(error))
+  },
+)
+
+// Image URLs returned by the API point at the backend host directly. Rewrite them to the proxied
+// `/api/files` path so they load over the same protocol as the site and avoid mixed content.
+export const getProxiedImageUrl = (url: string | null | undefined) => {
+  if (!url) return "/placeholder.svg"
+
+  // If it's already a relative URL, return as is
+  if (url.startsWith("/")) return url
+
+  try {
+    const urlObj = new URL(url)
+
+    if (url.includes("/api/files")) {
+      const fileId = urlObj.pathname.split("/").pop()
+      if (fileId) {
+        return `${API_BASE_URL}/files/${fileId}`
+      }
+    }
+
+    // For other URLs, return as is
+    return url
+  } catch (e) {
+    console.error("Invalid URL:", url, e)
+    return "/placeholder.svg"
+  }
+}
+
+// Responses with files go as multipart: the response as JSON plus one part per file, named after the
+// question it answers. Files already stored for an edited response are kept when their name is
+// still listed in that answer's `selectedOptions`.
+const toResponseFormData = (response: SurveyResponseDto, files: ResponseFile[]) => {
+  const formData = new FormData()
+  formData.append("responseJson", JSON.stringify(response))
+  files.forEach(({ questionId, file }) => formData.append(`files[${questionId}]`, file, file.name))
+  return formData
+}
+
+// Reports upload progress in percent to `onProgress`
+const withUploadProgress = (onProgress?: (percent: number) => void): AxiosRequestConfig =>
+  onProgress
+    ? {
+        onUploadProgress: (event) => {
+          if (event.total) onProgress(Math.round((event.loaded / event.total) * 100))
+        },
+      }
+    : {}
+
+// API service functions
+export const SurveyApi = {
+  // Get all surveys
+  getAllSurveys: async (): Promise<ApiSurvey[]> => {
+    const response = await apiClient.get<ApiSurvey[]>("/surveys")
+    return response.data
+  },
+
+  // Get survey by ID
+  getSurveyById: async (id: string): Promise<ApiSurvey> => {
+    const response = await apiClient.get<ApiSurvey>(`/surveys/${id}`)
+    return response.data
+  },
+
+  // Create a new survey
+  createSurvey: async (formData: FormData): Promise<ApiSurvey> => {
+    const response = await apiClient.post<ApiSurvey>("/surveys", formData, {
+      headers: { "Content-Type": "multipart/form-data" },
+    })
+    return response.data
+  },
+
+  // Update a survey
+  updateSurvey: async (id: string, formData: FormData): Promise<void> => {
+    await apiClient.put(`/surveys/${id}`, formData, {
+      headers: { "Content-Type": "multipart/form-data" },
+    })
+  },
+
+  // Draft, open, close or archive a survey without resending its questions
+  updateSurveyStatus: async (id: string, status: string): Promise<void> => {
+    await apiClient.patch(`/surveys/${id}/status`, { Status: status })
+  },
+
+  // Delete a survey
+  deleteSurvey: async (id: string): Promise<void> => {
+    await apiClient.delete(`/surveys/${id}`)
+  },
+
+  // Respond to a survey. Resending with the same idempotency key never stores the response twice.
+  respondToSurvey: async (
+    response: SurveyResponseDto,
+    idempotencyKey?: string,
+    files: ResponseFile[] = [],
+    onUploadProgress?: (percent: number) => void,
+  ): Promise<void> => {
+    if (files.length === 0) {
+      await apiClient.post(`/surveys/${response.surveyId}/respond`, response, {
+        headers: idempotencyKey ? { "Idempotency-Key": idempotencyKey } : undefined,
+      })
+      return
+    }
+
+    await apiClient.post(`/surveys/${response.surveyId}/respond`, toResponseFormData(response, files), {
+      headers: {
+        "Content-Type": "multipart/form-data",
+        ...(idempotencyKey && { "Idempotency-Key": idempotencyKey }),
+      },
+      ...withUploadProgress(onUploadProgress),
+    })
+  },
+
+  // List the teammates a survey is shared with
+  getCollaborators: async (surveyId: string): Promise<ApiCollaborator[]> => {
+    const response = await apiClient.get<ApiCollaborator[]>(`/surveys/${surveyId}/collaborators`)
+    return response.data
+  },
+
+  // Share a survey by email. Works for addresses without an account yet; access starts when they sign up.
+  addCollaborator: async (surveyId: string, email: string, role: string): Promise<ApiCollaborator> => {
+    const response = await apiClient.post<ApiCollaborator>(`/surveys/${surveyId}/collaborators`, {
+      Email: email,
+      Role: role,
+    })
+    return response.data
+  },
+
+  updateCollaboratorRole: async (surveyId: string, collaboratorId: string, role: string): Promise<void> => {
+    await apiClient.put(`/surveys/${surveyId}/collaborators/${collaboratorId}`, { Role: role })
+  },
+
+  removeCollaborator: async (surveyId: string, collaboratorId: string): Promise<void> => {
+    await apiClient.delete(`/surveys/${surveyId}/collaborators/${collaboratorId}`)
+  },
+
+  // Check before showing the form whether this respondent may still answer
+  getEligibility: async (surveyId: string, deviceToken: string): Promise<SurveyEligibility> => {
+    const response = await apiClient.get<SurveyEligibility>(`/surveys/${surveyId}/eligibility`, {
+      params: { deviceToken },
+    })
+    return response.data
+  },
+
+  // A respondent's own earlier response, so it can be edited
+  getResponse: async (surveyId: string, responseId: string, deviceToken: string): Promise<ApiSurveyResponse> => {
+    const response = await apiClient.get<ApiSurveyResponse>(`/surveys/${surveyId}/responses/${responseId}`, {
+      params: { deviceToken },
+    })
+    return response.data
+  },
+
+  // Replace the answers of an earlier response
+  updateResponse: async (
+    responseId: string,
+    response: SurveyResponseDto,
+    files: ResponseFile[] = [],
+    onUploadProgress?: (percent: number) => void,
+  ): Promise<void> => {
+    const url = `/surveys/${response.surveyId}/responses/${responseId}`
+    if (files.length === 0) {
+      await apiClient.put(url, response)
+      return
+    }
+
+    await apiClient.put(url, toResponseFormData(response, files), {
+      headers: { "Content-Type": "multipart/form-data" },
+      ...withUploadProgress(onUploadProgress),
+    })
+  },
+
+  // Remove a respondent's own response altogether
+  withdrawResponse: async (surveyId: string, responseId: string, deviceToken: string): Promise<void> => {
+    await apiClient.delete(`/surveys/${surveyId}/responses/${responseId}`, { params: { deviceToken } })
+  },
+
+  // Get all responses for a survey
+  getSurveyResponses: async (surveyId: string): Promise<ApiSurveyResponse[]> => {
+    const response = await apiClient.get<ApiSurveyResponse[]>(`/surveys/${surveyId}/responses`)
+    return response.data
+  },
+
+  // Get the signed-in user's draft for a survey, or null when there is none
+  getDraft: async (surveyId: string): Promise<SurveyDraft | null> => {
+    try {
+      const response = await apiClient.get<SurveyDraft>(`/surveys/${surveyId}/draft`)
+      return response.data
+    } catch (error) {
+      if (error instanceof ApiError && error.isNotFound) return null
+      throw error
+    }
+  },
+
+  // Save the signed-in user's draft for a survey
+  saveDraft: async (surveyId: string, draft: SurveyDraft): Promise<void> => {
+    await apiClient.put(`/surveys/${surveyId}/draft`, draft)
+  },
+
+  // Delete the signed-in user's draft for a survey
+  deleteDraft: async (surveyId: string): Promise<void> => {
+    await apiClient.delete(`/surveys/${surveyId}/draft`)
+  },
+
+  // Download all responses for a survey as CSV
+  exportSurveyResponses: async (surveyId: string): Promise<Blob> => {
+    const response = await apiClient.get<Blob>(`/surveys/${surveyId}/responses/export`, {
+      responseType: "blob",
+    })
+    return response.data
+  },
+}
+
+export const AuthApi = {
+  // The backend expects PascalCase credential fields
+  login: async ({ email, password }: LoginRequest): Promise<LoginResponse> => {
+    const response = await apiClient.post<LoginResponse>("/auth/login", {
+      Email: email,
+      Password: password,
+    })
+    return response.data
+  },
+
+  // Exchange a refresh token for a new access token (and usually a new refresh token)
+  refreshSession: async (refreshToken: string): Promise<LoginResponse> => {
+    const response = await apiClient.post<LoginResponse>(REFRESH_PATH, { RefreshToken: refreshToken })
+    return response.data
+  },
+
+  // Creates the account and signs it in, so the response carries a token like login does
+  register: async ({ username, email, password, profile }: RegisterRequest): Promise<LoginResponse> => {
+    const response = await apiClient.post<LoginResponse>("/auth/register", {
+      Username: username,
+      Email: email,
+      Password: password,
+      Profile: profile,
+    })
+    return response.data
+  },
+}
+
+export const AdminApi = {
+  // Only available to administrators
+  getUsers: async (): Promise<ApiUser[]> => {
+    const response = await apiClient.get<ApiUser[]>("/admin/users")
+    return response.data
+  },
+}
+
+export default SurveyApi
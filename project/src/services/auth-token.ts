@@ -0,0 +1,46 @@
+// Claims the client reads from the access token. The signature is never checked here; the token
+// is only decoded to know when it expires and what it grants.
+export interface JwtPayload {
+  exp?: number
+  [claim: string]: unknown
+}
+
+export const decodeJwt = (token: string): JwtPayload | null => {
+  const [, payload] = token.split(".")
+  if (!payload) return null
+
+  try {
+    // JWTs use unpadded base64url; atob needs standard padded base64
+    const base64 = payload
+      .replace(/-/g, "+")
+      .replace(/_/g, "/")
+      .padEnd(Math.ceil(payload.length / 4) * 4, "=")
+    const bytes = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0))
+    return JSON.parse(new TextDecoder().decode(bytes)) as JwtPayload
+  } catch {
+    return null
+  }
+}
+
+// Expiry time in milliseconds, or null when the token has no `exp` claim or cannot be decoded
+export const getTokenExpiry = (token: string): number | null => {
+  const exp = decodeJwt(token)?.exp
+  return typeof exp === "number" ? exp * 1000 : null
+}
+
+// ASP.NET Identity writes roles under the long schema URI; other issuers use `role` or `roles`.
+// A single role is a string, several are an array.
+const ROLE_CLAIMS = ["role", "roles", "http://schemas.microsoft.com/ws/2008/06/identity/claims/role"]
+
+export const getTokenRoles = (token: string): string[] => {
+  const payload = decodeJwt(token)
+  if (!payload) return []
+
+  const roles = ROLE_CLAIMS.flatMap((claim) => {
+    const value = payload[claim]
+    if (typeof value === "string") return [value]
+    if (Array.isArray(value)) return value.filter((role): role is string => typeof role === "string")
+    return []
+  })
+  return [...new Set(roles)]
+}
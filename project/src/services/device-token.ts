@@ -0,0 +1,12 @@
+const DEVICE_TOKEN_STORAGE_KEY = "device_token"
+
+// Identifies this browser to the server so respondents who are not signed in can still be held
+// to one response per survey. It is random and says nothing about the person using it.
+export const getDeviceToken = () => {
+  let token = localStorage.getItem(DEVICE_TOKEN_STORAGE_KEY)
+  if (!token) {
+    token = crypto.randomUUID()
+    localStorage.setItem(DEVICE_TOKEN_STORAGE_KEY, token)
+  }
+  return token
+}
@@ -0,0 +1,169 @@
+import { ApiError, SurveyApi, type SurveyResponseDto } from "./api-service"
+
+// Responses that could not be sent because the device was offline. They are kept in IndexedDB so
+// they survive reloads, and resent in the background with the same idempotency key, which lets the
+// server ignore a retry of a submission it already stored.
+export interface QueuedResponse {
+  idempotencyKey: string
+  response: SurveyResponseDto
+  // Who was signed in when it was submitted; null for an anonymous response. Entries queued before
+  // this was stored have none and are treated as anonymous.
+  userId?: string | null
+  queuedAt: string
+  attempts: number
+  nextAttemptAt: number
+}
+
+const DB_NAME = "survey-pro"
+const DB_VERSION = 1
+const STORE_NAME = "pendingResponses"
+
+const BASE_RETRY_DELAY = 5_000
+const MAX_RETRY_DELAY = 10 * 60_000
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "idempotencyKey" })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+// Run a single request against the store and resolve with its result once the transaction commits
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDatabase()
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode)
+      const request = operation(transaction.objectStore(STORE_NAME))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+export const createIdempotencyKey = () => crypto.randomUUID()
+
+export const enqueueResponse = async (
+  response: SurveyResponseDto,
+  idempotencyKey: string,
+  userId: string | null,
+): Promise<void> => {
+  const entry: QueuedResponse = {
+    idempotencyKey,
+    response,
+    userId,
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+  }
+  await withStore("readwrite", (store) => store.put(entry))
+  scheduleFlush(BASE_RETRY_DELAY)
+}
+
+export const getQueuedResponses = () => withStore<QueuedResponse[]>("readonly", (store) => store.getAll())
+
+const removeQueuedResponse = (idempotencyKey: string) =>
+  withStore("readwrite", (store) => store.delete(idempotencyKey))
+
+const saveQueuedResponse = (entry: QueuedResponse) => withStore("readwrite", (store) => store.put(entry))
+
+// Exponential backoff: 5s, 10s, 20s... capped at 10 minutes
+const getRetryDelay = (attempts: number) => Math.min(BASE_RETRY_DELAY * 2 ** (attempts - 1), MAX_RETRY_DELAY)
+
+// Rejections that will fail the same way every time: invalid answers, a deleted or closed survey.
+// Anything else is kept, including 401 and 403, which usually mean the session expired while the
+// device was offline and the response can still be sent once the user signs in again.
+const isPermanentRejection = (error: unknown) =>
+  error instanceof ApiError && [400, 404, 410, 422].includes(error.status ?? 0)
+
+let isFlushing = false
+let flushTimer: ReturnType<typeof setTimeout> | undefined
+// The signed-in user, reported by AuthContext once it has read the stored session; undefined until
+// then. Entries are only replayed for the user who submitted them (anonymous ones while nobody is
+// signed in), so a response never goes out under someone else's token.
+let sessionUserId: string | null | undefined
+
+export const setResponseQueueUser = (userId: string | null) => {
+  if (userId === sessionUserId) return
+  sessionUserId = userId
+  flushResponseQueue(true)
+}
+
+const scheduleFlush = (delay: number) => {
+  if (flushTimer) clearTimeout(flushTimer)
+  flushTimer = setTimeout(() => {
+    flushTimer = undefined
+    flushResponseQueue()
+  }, delay)
+}
+
+// Send every queued response that is due, then schedule the next attempt for the ones left.
+// `ignoreBackoff` retries everything at once, e.g. when the connection has just come back.
+export const flushResponseQueue = async (ignoreBackoff = false) => {
+  if (isFlushing || !navigator.onLine || sessionUserId === undefined) return
+  isFlushing = true
+
+  try {
+    const entries = await getQueuedResponses()
+
+    for (const entry of entries) {
+      if ((entry.userId ?? null) !== sessionUserId) continue
+      if (!ignoreBackoff && entry.nextAttemptAt > Date.now()) continue
+
+      try {
+        await SurveyApi.respondToSurvey(entry.response, entry.idempotencyKey)
+        await removeQueuedResponse(entry.idempotencyKey)
+      } catch (error) {
+        // 409 means the server already stored this submission on an earlier attempt
+        if (error instanceof ApiError && error.status === 409) {
+          await removeQueuedResponse(entry.idempotencyKey)
+          continue
+        }
+
+        if (isPermanentRejection(error)) {
+          console.error("Dropping queued response that the server rejected:", error)
+          await removeQueuedResponse(entry.idempotencyKey)
+          continue
+        }
+
+        const attempts = entry.attempts + 1
+        await saveQueuedResponse({ ...entry, attempts, nextAttemptAt: Date.now() + getRetryDelay(attempts) })
+
+        // The session could not be refreshed, so the rest would fail too. They are sent once the
+        // user signs in again.
+        if (error instanceof ApiError && error.isUnauthorized) break
+      }
+    }
+
+    const remaining = (await getQueuedResponses()).filter((entry) => (entry.userId ?? null) === sessionUserId)
+    if (remaining.length > 0) {
+      const nextAttemptAt = Math.min(...remaining.map((entry) => entry.nextAttemptAt))
+      scheduleFlush(Math.max(nextAttemptAt - Date.now(), 0))
+    }
+  } catch (error) {
+    console.error("Error syncing queued responses:", error)
+  } finally {
+    isFlushing = false
+  }
+}
+
+// Called once at startup: resend anything left from a previous visit and retry as soon as the
+// browser reports that the connection is back
+export const startResponseQueueSync = () => {
+  if (typeof indexedDB === "undefined") return
+
+  window.addEventListener("online", () => {
+    flushResponseQueue(true)
+  })
+  flushResponseQueue()
+}
@@ -0,0 +1,355 @@
+import {
+  questionTypeMap,
+  type ApiCollaborator,
+  type ApiQuestion,
+  type ApiSection,
+  type ApiSurvey,
+  type ApiSurveySettings,
+} from "./api-service"
+import {
+  collaboratorRoles,
+  conditionOperatorLabels,
+  defaultSurveySettings,
+  storedSurveyStatuses,
+  surveyThemes,
+  validationRuleLabels,
+  type Collaborator,
+  type CollaboratorRole,
+  type ConditionOperator,
+  type Question,
+  type QuestionType,
+  type SavedSurvey,
+  type StoredSurveyStatus,
+  type SurveySection,
+  type SurveySettings,
+  type SurveyTheme,
+  type ValidationRuleType,
+} from "../types/survey"
+import { defaultFileUploadSettings } from "./survey-files"
+import { NPS_POINTS, parseNpsScore } from "./survey-nps"
+import { mapQuestionText, toIdTokens, toPositionTokens } from "./survey-piping"
+
+// Question payload sent to the API when saving a survey. The server assigns ids on create.
+// A stored image URL keeps the image; null removes it unless a new one is sent as a multipart part.
+export type ApiQuestionInput = Omit<ApiQuestion, "id"> & { id?: string }
+
+// Images picked in the builder are previewed from a local object URL until the survey is saved
+export const isLocalImageUrl = (url: string | null | undefined): url is string => Boolean(url?.startsWith("blob:"))
+
+const toStoredImageUrl = (url: string | null | undefined) => (url && !isLocalImageUrl(url) ? url : null)
+
+export const toApiQuestionType = (type: QuestionType): number => questionTypeMap[type]
+
+// Unknown numeric types fall back to a free-text question so the respondent can still answer
+export const fromApiQuestionType = (type: number): QuestionType => questionTypeMap[type] ?? "open_ended"
+
+export const isScaleQuestion = (type: QuestionType) => type === "likert_scale" || type === "linear_scale"
+
+export const isChoiceQuestion = (type: QuestionType) => type === "multiple_choice" || type === "checkbox"
+
+export const isTextQuestion = (type: QuestionType) => type === "open_ended" || type === "closed_ended"
+
+// Questions answered with a list of values rather than a single one. File upload answers list the
+// names of their files.
+export const isMultiValueQuestion = (type: QuestionType) =>
+  type === "checkbox" || type === "matrix" || type === "ranking" || type === "file_upload"
+
+// Convert a builder question to the API format. Scale questions have no dedicated fields on the
+// API, so their points are flattened into `options`; matrix columns and the fixed 0-10 points of an
+// NPS question are sent there too.
+export const toApiQuestion = (question: Question): ApiQuestionInput => {
+  let options: string[] = []
+
+  if (isChoiceQuestion(question.type) || question.type === "ranking") {
+    options = question.options || []
+  } else if (question.type === "likert_scale" && question.likertScale) {
+    // For likert scale, use the labels instead of numeric values
+    options = question.likertScale.labels
+  } else if (question.type === "linear_scale" && question.linearScale) {
+    // For linear scale, create options from min to max
+    for (let i = question.linearScale.min; i <= question.linearScale.max; i++) {
+      options.push(i.toString())
+    }
+  } else if (question.type === "matrix" && question.matrix) {
+    options = question.matrix.columns
+  } else if (question.type === "nps") {
+    options = NPS_POINTS
+  }
+
+  return {
+    title: question.question,
+    description: question.description || "",
+    type: toApiQuestionType(question.type),
+    options,
+    isRequired: question.required,
+    imageUrl: toStoredImageUrl(question.imageUrl),
+    validationRules: question.validationRules || [],
+    ...(isChoiceQuestion(question.type) &&
+      question.optionImages?.some(Boolean) && {
+        optionImageUrls: options.map((_, index) => toStoredImageUrl(question.optionImages?.[index])),
+      }),
+    ...(question.type === "matrix" &&
+      question.matrix && { rows: question.matrix.rows, multiplePerRow: question.matrix.multiplePerRow }),
+    ...(question.type === "file_upload" &&
+      question.fileUpload && {
+        allowedFileTypes: question.fileUpload.allowedTypes,
+        maxFileSizeMb: question.fileUpload.maxSizeMb,
+        maxFiles: question.fileUpload.maxFiles,
+      }),
+  }
+}
+
+// Convert every question of a survey, including its branching rules, piping tokens and section.
+// Questions already saved on the server keep their id so the server can match them (and their
+// responses) on update.
+export const toApiQuestions = (
+  questions: Question[],
+  savedQuestionIds: Set<string> = new Set(),
+  sections: SurveySection[] = [],
+): ApiQuestionInput[] => {
+  const indexById = new Map(questions.map((question, index) => [question.id, index]))
+  const sectionIndexById = new Map(sections.map((section, index) => [section.id, index]))
+
+  return questions.map((question) => {
+    const storedQuestion = mapQuestionText(question, (text) => toPositionTokens(text, questions))
+
+    return {
+      ...toApiQuestion(storedQuestion),
+      ...(savedQuestionIds.has(question.id) && { id: question.id }),
+      sectionIndex: sections.length > 0 ? (sectionIndexById.get(question.sectionId ?? "") ?? 0) : null,
+      displayConditions: (storedQuestion.displayConditions || []).flatMap((condition) => {
+        const questionIndex = indexById.get(condition.questionId)
+        return questionIndex === undefined
+          ? []
+          : [{ questionIndex, operator: condition.operator, value: condition.value }]
+      }),
+      jumpRules: (storedQuestion.jumpRules || []).flatMap((rule) => {
+        const targetIndex = rule.targetQuestionId === null ? null : indexById.get(rule.targetQuestionId)
+        return targetIndex === undefined ? [] : [{ operator: rule.operator, value: rule.value, targetIndex }]
+      }),
+    }
+  })
+}
+
+const isConditionOperator = (operator: string): operator is ConditionOperator => operator in conditionOperatorLabels
+
+const isValidationRuleType = (type: string): type is ValidationRuleType => type in validationRuleLabels
+
+// Rebuild a builder question from the API format, restoring the scale settings from `options`
+export const fromApiQuestion = (apiQuestion: ApiQuestion): Question => {
+  const type = fromApiQuestionType(apiQuestion.type)
+  const options = apiQuestion.options || []
+
+  const question: Question = {
+    id: apiQuestion.id,
+    type,
+    question: apiQuestion.title,
+    required: apiQuestion.isRequired,
+    description: apiQuestion.description || "",
+    ...(apiQuestion.imageUrl && { imageUrl: apiQuestion.imageUrl }),
+  }
+
+  // Rules of a kind this client does not know are left for the server to enforce
+  const validationRules = (apiQuestion.validationRules || []).flatMap((rule) =>
+    isValidationRuleType(rule.type) ? [{ type: rule.type, value: rule.value || "", message: rule.message || "" }] : [],
+  )
+  if (validationRules.length > 0) question.validationRules = validationRules
+
+  if (isChoiceQuestion(type) || type === "ranking") {
+    question.options = options
+    if (isChoiceQuestion(type) && apiQuestion.optionImageUrls?.some(Boolean)) {
+      question.optionImages = options.map((_, index) => apiQuestion.optionImageUrls?.[index] || null)
+    }
+  } else if (type === "likert_scale") {
+    question.likertScale = {
+      min: 1,
+      max: options.length,
+      labels: options,
+    }
+  } else if (type === "linear_scale") {
+    const points = options.map(Number).filter((point) => !Number.isNaN(point))
+    question.linearScale = {
+      min: points.length > 0 ? Math.min(...points) : 0,
+      max: points.length > 0 ? Math.max(...points) : 10,
+      minLabel: "",
+      maxLabel: "",
+    }
+  } else if (type === "matrix") {
+    question.matrix = {
+      rows: apiQuestion.rows || [],
+      columns: options,
+      multiplePerRow: Boolean(apiQuestion.multiplePerRow),
+    }
+  } else if (type === "file_upload") {
+    question.fileUpload = {
+      allowedTypes: apiQuestion.allowedFileTypes || defaultFileUploadSettings.allowedTypes,
+      maxSizeMb: apiQuestion.maxFileSizeMb || defaultFileUploadSettings.maxSizeMb,
+      maxFiles: apiQuestion.maxFiles || defaultFileUploadSettings.maxFiles,
+    }
+  }
+
+  return question
+}
+
+// Rebuild all questions of a survey and resolve their branching rules, piping tokens and sections
+// back to ids. Rules with an unknown operator or a position outside the survey are dropped.
+export const fromApiQuestions = (apiQuestions: ApiQuestion[], sections: SurveySection[] = []): Question[] => {
+  const questions = apiQuestions.map(fromApiQuestion)
+  const idAt = (index: number) => questions[index]?.id
+
+  return questions.map((question, index) => {
+    const { displayConditions, jumpRules, sectionIndex } = apiQuestions[index]
+    const section = sectionIndex == null ? undefined : sections[sectionIndex]
+
+    const conditions = (displayConditions || []).flatMap((condition) => {
+      const questionId = idAt(condition.questionIndex)
+      return questionId && isConditionOperator(condition.operator)
+        ? [{ questionId, operator: condition.operator, value: condition.value || "" }]
+        : []
+    })
+
+    const rules = (jumpRules || []).flatMap((rule) => {
+      const targetQuestionId = rule.targetIndex === null ? null : idAt(rule.targetIndex)
+      return targetQuestionId !== undefined && isConditionOperator(rule.operator)
+        ? [{ operator: rule.operator, value: rule.value || "", targetQuestionId }]
+        : []
+    })
+
+    return mapQuestionText(
+      {
+        ...question,
+        ...(section && { sectionId: section.id }),
+        ...(conditions.length > 0 && { displayConditions: conditions }),
+        ...(rules.length > 0 && { jumpRules: rules }),
+      },
+      (text) => toIdTokens(text, questions),
+    )
+  })
+}
+
+// Settings missing from the API (surveys saved before they were persisted) keep their defaults
+export const fromApiSettings = (apiSettings?: ApiSurveySettings | null): SurveySettings => {
+  const settings = { ...defaultSurveySettings }
+  if (!apiSettings) return settings
+
+  if (typeof apiSettings.requireSignIn === "boolean") settings.requireSignIn = apiSettings.requireSignIn
+  if (typeof apiSettings.shuffleQuestions === "boolean") settings.shuffleQuestions = apiSettings.shuffleQuestions
+  if (typeof apiSettings.showProgressBar === "boolean") settings.showProgressBar = apiSettings.showProgressBar
+  if (typeof apiSettings.allowReview === "boolean") settings.allowReview = apiSettings.allowReview
+  if (typeof apiSettings.onePerRespondent === "boolean") settings.onePerRespondent = apiSettings.onePerRespondent
+  if (surveyThemes.includes(apiSettings.theme as SurveyTheme)) settings.theme = apiSettings.theme as SurveyTheme
+
+  return settings
+}
+
+// Surveys saved before statuses existed only have `isActive`
+const fromApiStatus = (apiSurvey: ApiSurvey): StoredSurveyStatus =>
+  storedSurveyStatuses.includes(apiSurvey.status as StoredSurveyStatus)
+    ? (apiSurvey.status as StoredSurveyStatus)
+    : apiSurvey.isActive
+      ? "open"
+      : "closed"
+
+// Unknown roles fall back to the most restricted one
+export const fromApiCollaborator = (apiCollaborator: ApiCollaborator): Collaborator => ({
+  id: apiCollaborator.id,
+  userId: apiCollaborator.userId ?? null,
+  email: apiCollaborator.email,
+  role: collaboratorRoles.includes(apiCollaborator.role as CollaboratorRole)
+    ? (apiCollaborator.role as CollaboratorRole)
+    : "viewer",
+  addedAt: apiCollaborator.addedAt,
+})
+
+export const toApiSections = (sections: SurveySection[]): ApiSection[] =>
+  sections.map(({ title, description }) => ({ title, description }))
+
+// Sections are matched to questions by position, so ids only need to be unique within the survey
+export const fromApiSections = (apiSections?: ApiSection[] | null): SurveySection[] =>
+  (apiSections || []).map((apiSection, index) => ({
+    id: apiSection.id || `section-${index + 1}`,
+    title: apiSection.title || "",
+    description: apiSection.description || "",
+  }))
+
+export const fromApiSurvey = (apiSurvey: ApiSurvey): SavedSurvey => {
+  const sections = fromApiSections(apiSurvey.sections)
+
+  return {
+    id: apiSurvey.id,
+    title: apiSurvey.title,
+    description: apiSurvey.description,
+    category: apiSurvey.category || apiSurvey.categories?.[0] || "",
+    settings: fromApiSettings(apiSurvey.settings),
+    schedule: {
+      opensAt: apiSurvey.opensAt ?? null,
+      closesAt: apiSurvey.closesAt ?? null,
+      maxResponses: apiSurvey.maxResponses ?? null,
+    },
+    sections,
+    questions: fromApiQuestions(apiSurvey.questions || [], sections),
+    status: fromApiStatus(apiSurvey),
+    isActive: apiSurvey.isActive,
+    createdAt: apiSurvey.createdAt,
+    createdBy: apiSurvey.createdBy,
+    updatedAt: apiSurvey.updatedAt,
+    coverImageUrl: apiSurvey.coverImageUrl,
+    numberOfResponses: apiSurvey.numberOfResponses,
+    collaborators: (apiSurvey.collaborators || []).map(fromApiCollaborator),
+  }
+}
+
+// The points a respondent can pick on a scale question, as the strings stored in answers
+export const getScalePoints = (question: Question): string[] => {
+  if (question.type === "likert_scale") {
+    return question.likertScale?.labels || []
+  }
+
+  if (question.type === "linear_scale" && question.linearScale) {
+    const points: string[] = []
+    for (let i = question.linearScale.min; i <= question.linearScale.max; i++) {
+      points.push(i.toString())
+    }
+    return points
+  }
+
+  if (question.type === "nps") {
+    return NPS_POINTS
+  }
+
+  return []
+}
+
+// Numeric value of a scale answer. Likert answers are stored as their label, so they are
+// translated back to their position on the scale.
+export const getScaleValue = (question: Question, answer: string): number | null => {
+  if (question.type === "likert_scale" && question.likertScale) {
+    const position = question.likertScale.labels.indexOf(answer)
+    return position >= 0 ? question.likertScale.min + position : null
+  }
+
+  if (question.type === "linear_scale") {
+    const value = Number.parseInt(answer, 10)
+    return Number.isNaN(value) ? null : value
+  }
+
+  if (question.type === "nps") {
+    return parseNpsScore(answer)
+  }
+
+  return null
+}
+
+// A matrix answer holds one "row: column" cell per pick, readable as-is in exports
+export const toMatrixCell = (row: string, column: string) => `${row}: ${column}`
+
+// Split a stored cell back into its row and column. Rows are matched against the question, longest
+// first, so a row containing ": " itself is still recognised.
+export const parseMatrixCell = (question: Question, cell: string): { row: string; column: string } | null => {
+  const rows = [...(question.matrix?.rows || [])].sort((a, b) => b.length - a.length)
+  const row = rows.find((candidate) => cell.startsWith(`${candidate}: `))
+  if (row === undefined) return null
+
+  const column = cell.slice(row.length + 2)
+  return question.matrix?.columns.includes(column) ? { row, column } : null
+}
@@ -0,0 +1,60 @@
+import type { FileUploadSettings } from "../types/survey"
+
+export const defaultFileUploadSettings: FileUploadSettings = {
+  allowedTypes: [],
+  maxSizeMb: 10,
+  maxFiles: 1,
+}
+
+// Groups of MIME types authors pick from when limiting what a file upload question accepts
+export const fileTypePresets: { label: string; types: string[] }[] = [
+  { label: "Images", types: ["image/*"] },
+  { label: "PDF", types: ["application/pdf"] },
+  {
+    label: "Word documents",
+    types: ["application/msword", "application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+  },
+  {
+    label: "Spreadsheets",
+    types: ["application/vnd.ms-excel", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", "text/csv"],
+  },
+  { label: "Plain text", types: ["text/plain"] },
+  { label: "Audio", types: ["audio/*"] },
+  { label: "Video", types: ["video/*"] },
+]
+
+export const isFileTypeAllowed = (contentType: string, allowedTypes: string[]) =>
+  allowedTypes.length === 0 ||
+  allowedTypes.some((type) => (type.endsWith("/*") ? contentType.startsWith(type.slice(0, -1)) : contentType === type))
+
+// "Images, PDF" for the presets fully covered by `allowedTypes`, plus any other type as-is
+export const describeFileTypes = (allowedTypes: string[]) => {
+  if (allowedTypes.length === 0) return "Any file type"
+
+  const presets = fileTypePresets.filter((preset) => preset.types.every((type) => allowedTypes.includes(type)))
+  const covered = new Set(presets.flatMap((preset) => preset.types))
+  return [...presets.map((preset) => preset.label), ...allowedTypes.filter((type) => !covered.has(type))].join(", ")
+}
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// Why `file` cannot be added to an answer that already holds `currentNames`, or null when it can
+export const getFileRejection = (file: File, settings: FileUploadSettings, currentNames: string[]): string | null => {
+  if (!isFileTypeAllowed(file.type, settings.allowedTypes)) {
+    return `${file.name} is not an accepted file type (${describeFileTypes(settings.allowedTypes)})`
+  }
+  if (file.size > settings.maxSizeMb * 1024 * 1024) {
+    return `${file.name} is larger than ${settings.maxSizeMb} MB`
+  }
+  if (currentNames.includes(file.name)) {
+    return `${file.name} has already been added`
+  }
+  if (currentNames.length >= settings.maxFiles) {
+    return settings.maxFiles === 1 ? "Only one file can be uploaded" : `At most ${settings.maxFiles} files can be uploaded`
+  }
+  return null
+}
@@ -0,0 +1,95 @@
+import type { ConditionOperator, Question } from "../types/survey"
+
+export type AnswerValue = string | string[]
+
+// Answers keyed by question id, as collected by the respondent flow
+export type AnswerLookup = Record<string, AnswerValue | undefined>
+
+// Operators that only check whether there is an answer and ignore the rule value
+export const isPresenceOperator = (operator: ConditionOperator) =>
+  operator === "is_answered" || operator === "is_not_answered"
+
+export const isAnswered = (value: AnswerValue | undefined) =>
+  Array.isArray(value) ? value.length > 0 : Boolean(value && value.trim() !== "")
+
+// Checkbox answers match `equals` only when the single selected option is the value. Text
+// answers match `includes` on a case-insensitive substring.
+export const matchesCondition = (
+  operator: ConditionOperator,
+  expected: string,
+  value: AnswerValue | undefined,
+): boolean => {
+  switch (operator) {
+    case "is_answered":
+      return isAnswered(value)
+    case "is_not_answered":
+      return !isAnswered(value)
+    case "equals":
+      return Array.isArray(value) ? value.length === 1 && value[0] === expected : value === expected
+    case "not_equals":
+      return !matchesCondition("equals", expected, value)
+    case "includes":
+      return Array.isArray(value)
+        ? value.includes(expected)
+        : (value || "").toLowerCase().includes(expected.toLowerCase())
+    case "not_includes":
+      return !matchesCondition("includes", expected, value)
+    default:
+      return false
+  }
+}
+
+export const isQuestionVisible = (question: Question, answers: AnswerLookup) =>
+  (question.displayConditions || []).every((condition) =>
+    matchesCondition(condition.operator, condition.value, answers[condition.questionId]),
+  )
+
+// Display conditions and jumps depend on the authored order, so surveys using them are never shuffled
+export const hasBranchingLogic = (questions: Question[]) =>
+  questions.some((question) => (question.displayConditions?.length ?? 0) > 0 || (question.jumpRules?.length ?? 0) > 0)
+
+// The questions a respondent actually goes through, in order. Questions whose display conditions
+// fail are left out, and a matching jump rule skips everything up to its target. Jumps only move
+// forward; a rule pointing at an earlier (or deleted) question falls through to the next one.
+export const getQuestionPath = (questions: Question[], answers: AnswerLookup): Question[] => {
+  const path: Question[] = []
+  let index = 0
+
+  while (index < questions.length) {
+    const question = questions[index]
+
+    if (!isQuestionVisible(question, answers)) {
+      index++
+      continue
+    }
+
+    path.push(question)
+
+    const jump = (question.jumpRules || []).find((rule) =>
+      matchesCondition(rule.operator, rule.value, answers[question.id]),
+    )
+    if (!jump) {
+      index++
+      continue
+    }
+
+    if (jump.targetQuestionId === null) break
+
+    const targetIndex = questions.findIndex((q) => q.id === jump.targetQuestionId)
+    index = targetIndex > index ? targetIndex : index + 1
+  }
+
+  return path
+}
+
+// Drop every condition and jump rule that points at a question which no longer exists
+export const removeQuestionReferences = (questions: Question[], removedId: string): Question[] =>
+  questions.map((question) => ({
+    ...question,
+    ...(question.displayConditions && {
+      displayConditions: question.displayConditions.filter((condition) => condition.questionId !== removedId),
+    }),
+    ...(question.jumpRules && {
+      jumpRules: question.jumpRules.filter((rule) => rule.targetQuestionId !== removedId),
+    }),
+  }))
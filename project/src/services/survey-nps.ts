@@ -0,0 +1,49 @@
+// Net Promoter Score: "How likely are you to recommend us?" answered from 0 to 10. Respondents
+// scoring 9-10 are promoters, 7-8 passives and 0-6 detractors. The score is the share of promoters
+// minus the share of detractors, from -100 to 100.
+export type NpsCategory = "promoter" | "passive" | "detractor"
+
+export interface NpsSummary {
+  promoters: number
+  passives: number
+  detractors: number
+  total: number
+  score: number
+}
+
+export const NPS_POINTS = Array.from({ length: 11 }, (_, point) => point.toString())
+
+export const npsCategoryLabels: Record<NpsCategory, string> = {
+  promoter: "Promoters",
+  passive: "Passives",
+  detractor: "Detractors",
+}
+
+export const npsCategoryColors: Record<NpsCategory, string> = {
+  promoter: "#22c55e",
+  passive: "#f59e0b",
+  detractor: "#ef4444",
+}
+
+// Null for anything that is not a whole number from 0 to 10
+export const parseNpsScore = (answer: string | undefined): number | null => {
+  if (!answer || !NPS_POINTS.includes(answer.trim())) return null
+  return Number(answer.trim())
+}
+
+export const getNpsCategory = (score: number): NpsCategory =>
+  score >= 9 ? "promoter" : score >= 7 ? "passive" : "detractor"
+
+export const summarizeNps = (scores: number[]): NpsSummary => {
+  const count = (category: NpsCategory) => scores.filter((score) => getNpsCategory(score) === category).length
+  const promoters = count("promoter")
+  const detractors = count("detractor")
+
+  return {
+    promoters,
+    passives: count("passive"),
+    detractors,
+    total: scores.length,
+    score: scores.length > 0 ? Math.round(((promoters - detractors) / scores.length) * 100) : 0,
+  }
+}
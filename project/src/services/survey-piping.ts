@@ -0,0 +1,70 @@
+import type { Question } from "../types/survey"
+import { isAnswered, type AnswerLookup } from "./survey-logic"
+
+// Piping inserts an earlier answer into question text, e.g. "Why did you rate us {{Q2}}?". A
+// fallback after a pipe is shown when that question was skipped: "{{Q2|that score}}".
+//
+// Authors and the API see tokens by question number. In memory they hold the question id
+// ({{@id}}) instead, so reordering questions keeps each token pointing at the same question.
+const POSITION_TOKEN = /\{\{\s*Q(\d+)\s*(?:\|([^}]*))?\}\}/gi
+const ID_TOKEN = /\{\{@([^|}]+)(?:\|([^}]*))?\}\}/g
+
+const DEFAULT_FALLBACK = "(no answer)"
+
+const formatToken = (reference: string, fallback: string | undefined) =>
+  fallback === undefined ? `{{${reference}}}` : `{{${reference}|${fallback}}}`
+
+export const createPipingToken = (questionIndex: number) => `{{Q${questionIndex + 1}}}`
+
+export const toPositionTokens = (text: string, questions: Question[]) =>
+  text.replace(ID_TOKEN, (token, id: string, fallback?: string) => {
+    const index = questions.findIndex((question) => question.id === id)
+    return index === -1 ? token : formatToken(`Q${index + 1}`, fallback)
+  })
+
+// Numbers that do not match a question are left as typed
+export const toIdTokens = (text: string, questions: Question[]) =>
+  text.replace(POSITION_TOKEN, (token, position: string, fallback?: string) => {
+    const question = questions[Number(position) - 1]
+    return question ? formatToken(`@${question.id}`, fallback) : token
+  })
+
+// Apply `transform` to every piece of question text that may hold tokens, including the values of
+// conditions and jump rules, which can compare against a piped option
+export const mapQuestionText = (question: Question, transform: (text: string) => string): Question => ({
+  ...question,
+  question: transform(question.question),
+  ...(question.description !== undefined && { description: transform(question.description) }),
+  ...(question.options && { options: question.options.map(transform) }),
+  ...(question.displayConditions && {
+    displayConditions: question.displayConditions.map((condition) => ({
+      ...condition,
+      value: transform(condition.value),
+    })),
+  }),
+  ...(question.jumpRules && {
+    jumpRules: question.jumpRules.map((rule) => ({ ...rule, value: transform(rule.value) })),
+  }),
+})
+
+// The questions with their tokens by question number again, for screens that show the text as
+// authored rather than piping answers into it
+export const withPositionTokens = (questions: Question[]) =>
+  questions.map((question) => mapQuestionText(question, (text) => toPositionTokens(text, questions)))
+
+// Checkbox answers are listed; a skipped or unanswered question falls back to the token's own
+// fallback, or to a neutral placeholder when the author did not give one
+export const resolvePipingTokens = (text: string, answers: AnswerLookup) =>
+  text.replace(ID_TOKEN, (_token, id: string, fallback?: string) => {
+    const value = answers[id]
+    if (!isAnswered(value)) return fallback ?? DEFAULT_FALLBACK
+    return Array.isArray(value) ? value.join(", ") : (value || "").trim()
+  })
+
+// A token pointing at a deleted question is replaced by its fallback, or dropped
+export const removePipingReferences = (questions: Question[], removedId: string): Question[] =>
+  questions.map((question) =>
+    mapQuestionText(question, (text) =>
+      text.replace(ID_TOKEN, (token, id: string, fallback?: string) => (id === removedId ? fallback ?? "" : token)),
+    ),
+  )
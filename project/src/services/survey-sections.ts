@@ -0,0 +1,27 @@
+import type { Question, SurveySection } from "../types/survey"
+
+export interface SectionGroup {
+  section: SurveySection
+  questions: Question[]
+}
+
+// Group questions under their sections, keeping the order of both. Questions whose section is
+// missing or unknown belong to the first section.
+export const groupQuestionsBySection = (sections: SurveySection[], questions: Question[]): SectionGroup[] => {
+  const sectionIds = new Set(sections.map((section) => section.id))
+
+  return sections.map((section, index) => ({
+    section,
+    questions: questions.filter((question) =>
+      question.sectionId && sectionIds.has(question.sectionId) ? question.sectionId === section.id : index === 0,
+    ),
+  }))
+}
+
+// Back to a flat list ordered section by section, with every question pointing at its section
+export const flattenSectionGroups = (groups: SectionGroup[]): Question[] =>
+  groups.flatMap(({ section, questions }) => questions.map((question) => ({ ...question, sectionId: section.id })))
+
+// A single untitled section without an intro is the same as a survey without sections
+export const hasSectionPages = (sections: SurveySection[]) =>
+  sections.length > 1 || sections.some((section) => section.title.trim() !== "" || section.description.trim() !== "")
@@ -0,0 +1,39 @@
+import type { SavedSurvey, SurveyStatus } from "../types/survey"
+
+// The status respondents see. An open survey is only accepting responses between its opening
+// and closing dates and until it reaches its response cap.
+export const getSurveyStatus = (
+  survey: Pick<SavedSurvey, "status" | "schedule" | "numberOfResponses">,
+  now = new Date(),
+): SurveyStatus => {
+  if (survey.status !== "open") return survey.status
+
+  const { opensAt, closesAt, maxResponses } = survey.schedule
+  if (opensAt && new Date(opensAt) > now) return "scheduled"
+  if (closesAt && new Date(closesAt) <= now) return "closed"
+  if (maxResponses !== null && (survey.numberOfResponses ?? 0) >= maxResponses) return "closed"
+
+  return "open"
+}
+
+// Why a closed survey stopped accepting responses, for the respondent-facing message
+export const getClosedReason = (survey: Pick<SavedSurvey, "status" | "schedule" | "numberOfResponses">) => {
+  if (survey.status !== "open") return "manual"
+
+  const { closesAt, maxResponses } = survey.schedule
+  if (closesAt && new Date(closesAt) <= new Date()) return "deadline"
+  if (maxResponses !== null && (survey.numberOfResponses ?? 0) >= maxResponses) return "limit"
+
+  return "manual"
+}
+
+export const surveyStatusColors: Record<SurveyStatus, string> = {
+  draft: "bg-gray-100 text-gray-700",
+  scheduled: "bg-blue-100 text-blue-700",
+  open: "bg-green-100 text-green-700",
+  closed: "bg-amber-100 text-amber-700",
+  archived: "bg-slate-200 text-slate-600",
+}
+
+export const formatSurveyDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })
@@ -0,0 +1,119 @@
+import type { Question, QuestionType, ValidationRule, ValidationRuleType } from "../types/survey"
+import { isAnswered, type AnswerValue } from "./survey-logic"
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+const textRuleTypes: ValidationRuleType[] = [
+  "min_length",
+  "max_length",
+  "pattern",
+  "email",
+  "url",
+  "min_number",
+  "max_number",
+]
+
+// The rules an author can add to each question type; other types have none
+export const validationRuleTypesByQuestionType: Partial<Record<QuestionType, ValidationRuleType[]>> = {
+  open_ended: textRuleTypes,
+  closed_ended: textRuleTypes,
+  checkbox: ["min_selections", "max_selections"],
+  date: ["min_date", "max_date"],
+}
+
+export const getValidationRuleTypes = (type: QuestionType) => validationRuleTypesByQuestionType[type] || []
+
+// Email and url checks have no limit to fill in
+export const ruleTakesValue = (type: ValidationRuleType) => type !== "email" && type !== "url"
+
+export const getDefaultValidationMessage = ({ type, value }: ValidationRule) => {
+  switch (type) {
+    case "min_length":
+      return `Please enter at least ${value} characters`
+    case "max_length":
+      return `Please enter no more than ${value} characters`
+    case "pattern":
+      return "Please match the requested format"
+    case "email":
+      return "Please enter a valid email address"
+    case "url":
+      return "Please enter a valid web address, starting with http:// or https://"
+    case "min_number":
+      return `Please enter a number of at least ${value}`
+    case "max_number":
+      return `Please enter a number no greater than ${value}`
+    case "min_selections":
+      return `Please select at least ${value} options`
+    case "max_selections":
+      return `Please select no more than ${value} options`
+    case "min_date":
+      return `Please pick a date on or after ${value}`
+    case "max_date":
+      return `Please pick a date on or before ${value}`
+  }
+}
+
+// Null when `pattern` is a usable regular expression, otherwise why it is not
+export const getPatternError = (pattern: string): string | null => {
+  try {
+    new RegExp(pattern)
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid pattern"
+  }
+}
+
+const isWebAddress = (text: string) => {
+  try {
+    const url = new URL(text)
+    return url.protocol === "http:" || url.protocol === "https:"
+  } catch {
+    return false
+  }
+}
+
+// A rule whose limit is missing or unusable passes, so a half-finished rule in the builder never
+// locks respondents out
+const passesRule = ({ type, value: limit }: ValidationRule, value: AnswerValue): boolean => {
+  const text = Array.isArray(value) ? "" : value.trim()
+  const count = Number(limit)
+  const hasCount = limit.trim() !== "" && !Number.isNaN(count)
+
+  switch (type) {
+    case "min_length":
+      return !hasCount || text.length >= count
+    case "max_length":
+      return !hasCount || text.length <= count
+    case "pattern":
+      return limit === "" || getPatternError(limit) !== null || new RegExp(limit).test(text)
+    case "email":
+      return EMAIL_PATTERN.test(text)
+    case "url":
+      return isWebAddress(text)
+    case "min_number":
+      return !hasCount || (text !== "" && !Number.isNaN(Number(text)) && Number(text) >= count)
+    case "max_number":
+      return !hasCount || (text !== "" && !Number.isNaN(Number(text)) && Number(text) <= count)
+    case "min_selections":
+      return !hasCount || !Array.isArray(value) || value.length >= count
+    case "max_selections":
+      return !hasCount || !Array.isArray(value) || value.length <= count
+    // Date answers are YYYY-MM-DD, which compare correctly as strings
+    case "min_date":
+      return limit === "" || text >= limit
+    case "max_date":
+      return limit === "" || text <= limit
+  }
+}
+
+// The message of the first rule the answer breaks, or null when it passes them all. Unanswered
+// questions pass; whether they may stay empty is up to `required`.
+export const getValidationError = (question: Question, value: AnswerValue | undefined): string | null => {
+  if (!isAnswered(value)) return null
+
+  const ruleTypes = getValidationRuleTypes(question.type)
+  const broken = (question.validationRules || []).find(
+    (rule) => ruleTypes.includes(rule.type) && !passesRule(rule, value as AnswerValue),
+  )
+  return broken ? broken.message.trim() || getDefaultValidationMessage(broken) : null
+}
@@ -1,4 +1,69 @@
-export type QuestionType = 'multiple_choice' | 'likert_scale' | 'open_ended' | 'checkbox' | 'linear_scale' | 'date' | 'time';
+export type QuestionType =
+  | 'multiple_choice'
+  | 'likert_scale'
+  | 'open_ended'
+  | 'checkbox'
+  | 'linear_scale'
+  | 'date'
+  | 'time'
+  | 'closed_ended'
+  | 'matrix'
+  | 'ranking'
+  | 'nps'
+  | 'file_upload';
+
+export type ConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'includes'
+  | 'not_includes'
+  | 'is_answered'
+  | 'is_not_answered';
+
+export type ValidationRuleType =
+  | 'min_length'
+  | 'max_length'
+  | 'pattern'
+  | 'email'
+  | 'url'
+  | 'min_number'
+  | 'max_number'
+  | 'min_selections'
+  | 'max_selections'
+  | 'min_date'
+  | 'max_date';
+
+// A check the answer has to pass before the respondent can move on. `value` is the limit: a count
+// for lengths and selections, a number, a regular expression or a YYYY-MM-DD date; email and url
+// ignore it. An empty message falls back to a default one.
+export interface ValidationRule {
+  type: ValidationRuleType;
+  value: string;
+  message: string;
+}
+
+// What a file upload question accepts. `allowedTypes` holds MIME types, where "image/*" stands for
+// a whole family; an empty list accepts any file.
+export interface FileUploadSettings {
+  allowedTypes: string[];
+  maxSizeMb: number;
+  maxFiles: number;
+}
+
+// Compares the answer to another question in the same survey
+export interface QuestionCondition {
+  questionId: string;
+  operator: ConditionOperator;
+  value: string;
+}
+
+// When the answer to the question owning the rule matches, continue at `targetQuestionId`.
+// A null target ends the survey.
+export interface JumpRule {
+  operator: ConditionOperator;
+  value: string;
+  targetQuestionId: string | null;
+}
 
 export interface Question {
   id: string;
@@ -7,6 +72,10 @@ export interface Question {
   required: boolean;
   description?: string;
   options?: string[];
+  // Pictures for choice options, by option position. Any picture turns the options into a grid of
+  // picture cards; options without one show their label only.
+  optionImages?: (string | null)[];
+  imageUrl?: string;
   likertScale?: {
     min: number;
     max: number;
@@ -18,13 +87,53 @@ export interface Question {
     minLabel: string;
     maxLabel: string;
   };
+  // The same columns (usually a scale) are asked for every row statement
+  matrix?: {
+    rows: string[];
+    columns: string[];
+    multiplePerRow: boolean;
+  };
+  fileUpload?: FileUploadSettings;
+  // The question is only shown when every condition matches
+  displayConditions?: QuestionCondition[];
+  // Evaluated in order after the question is answered; the first match wins
+  jumpRules?: JumpRule[];
+  // Only checked once the question is answered, so they apply to optional questions too
+  validationRules?: ValidationRule[];
+  // Questions without a known section belong to the first one
+  sectionId?: string;
+}
+
+// A page of the survey. Its description is the intro shown above the section's questions.
+export interface SurveySection {
+  id: string;
+  title: string;
+  description: string;
 }
 
+export type SurveyTheme = 'default' | 'modern' | 'minimal' | 'colorful';
+
 export interface SurveySettings {
   requireSignIn: boolean;
   shuffleQuestions: boolean;
   showProgressBar: boolean;
   allowReview: boolean;
+  // Each respondent may submit once: by account when signed in, otherwise by device
+  onePerRespondent: boolean;
+  theme: SurveyTheme;
+}
+
+// `scheduled` is never stored: it is an open survey whose opening date is still ahead
+export type SurveyStatus = 'draft' | 'scheduled' | 'open' | 'closed' | 'archived';
+
+export type StoredSurveyStatus = Exclude<SurveyStatus, 'scheduled'>;
+
+// When an open survey accepts responses. Null means no limit; passing `closesAt` or reaching
+// `maxResponses` closes the survey without changing its stored status.
+export interface SurveySchedule {
+  opensAt: string | null;
+  closesAt: string | null;
+  maxResponses: number | null;
 }
 
 export interface Survey {
@@ -32,5 +141,106 @@ export interface Survey {
   description: string;
   category: string;
   settings: SurveySettings;
+  schedule: SurveySchedule;
+  // Kept in the same order as the questions they group
+  sections: SurveySection[];
   questions: Question[];
-}
\ No newline at end of file
+}
+
+// What a teammate a survey is shared with may do with it
+export type CollaboratorRole = 'viewer' | 'editor' | 'analyst';
+
+// `userId` stays null until someone signs up with the invited email
+export interface Collaborator {
+  id: string;
+  userId: string | null;
+  email: string;
+  role: CollaboratorRole;
+  addedAt: string;
+}
+
+export const collaboratorRoles: CollaboratorRole[] = ['viewer', 'editor', 'analyst'];
+
+export const collaboratorRoleLabels: Record<CollaboratorRole, string> = {
+  viewer: 'Viewer',
+  editor: 'Editor',
+  analyst: 'Analyst',
+};
+
+// A survey that has been saved on the server
+export interface SavedSurvey extends Survey {
+  id: string;
+  status: StoredSurveyStatus;
+  isActive: boolean;
+  createdAt: string;
+  createdBy: string;
+  updatedAt?: string;
+  coverImageUrl?: string;
+  numberOfResponses?: number;
+  collaborators: Collaborator[];
+}
+
+export const surveyThemes: SurveyTheme[] = ['default', 'modern', 'minimal', 'colorful'];
+
+export const storedSurveyStatuses: StoredSurveyStatus[] = ['draft', 'open', 'closed', 'archived'];
+
+export const surveyStatusLabels: Record<SurveyStatus, string> = {
+  draft: 'Draft',
+  scheduled: 'Scheduled',
+  open: 'Open',
+  closed: 'Closed',
+  archived: 'Archived',
+};
+
+export const defaultSurveySchedule: SurveySchedule = {
+  opensAt: null,
+  closesAt: null,
+  maxResponses: null,
+};
+
+export const defaultSurveySettings: SurveySettings = {
+  requireSignIn: false,
+  shuffleQuestions: false,
+  showProgressBar: true,
+  allowReview: true,
+  onePerRespondent: false,
+  theme: 'default',
+};
+
+export const questionTypeLabels: Record<QuestionType, string> = {
+  multiple_choice: 'Multiple Choice',
+  checkbox: 'Checkbox',
+  likert_scale: 'Likert Scale',
+  linear_scale: 'Linear Scale',
+  open_ended: 'Open-Ended',
+  closed_ended: 'Closed-Ended',
+  date: 'Date',
+  time: 'Time',
+  matrix: 'Matrix',
+  ranking: 'Ranking',
+  nps: 'Net Promoter Score',
+  file_upload: 'File Upload',
+};
+
+export const conditionOperatorLabels: Record<ConditionOperator, string> = {
+  equals: 'is',
+  not_equals: 'is not',
+  includes: 'includes',
+  not_includes: 'does not include',
+  is_answered: 'is answered',
+  is_not_answered: 'is not answered',
+};
+
+export const validationRuleLabels: Record<ValidationRuleType, string> = {
+  min_length: 'Minimum length',
+  max_length: 'Maximum length',
+  pattern: 'Matches pattern',
+  email: 'Email address',
+  url: 'Web address',
+  min_number: 'Minimum number',
+  max_number: 'Maximum number',
+  min_selections: 'Minimum selections',
+  max_selections: 'Maximum selections',
+  min_date: 'Earliest date',
+  max_date: 'Latest date',
+};
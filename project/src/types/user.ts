@@ -0,0 +1,43 @@
+import type { CollaboratorRole } from './survey';
+
+// Profile attributes a respondent can share. They are optional and only used to break survey
+// results down on the admin dashboard.
+export type DemographicDimension = 'ageBand' | 'department' | 'region';
+
+export type UserProfile = Partial<Record<DemographicDimension, string>>;
+
+export const demographicDimensionLabels: Record<DemographicDimension, string> = {
+  ageBand: 'Age band',
+  department: 'Department',
+  region: 'Region',
+};
+
+export const ageBands = ['18-24', '25-34', '35-44', '45-54', '55-64', '65+'];
+
+// Roles issued in the access token. Ownership is not a role: whoever created a survey owns it and
+// gets `surveyOwnerPermissions` on that survey whatever their role. Collaborators get the
+// permissions of the role the survey was shared with.
+export type Role = 'admin' | 'editor' | 'analyst' | 'respondent';
+
+export type Permission =
+  | 'surveys:create'
+  | 'surveys:edit'
+  | 'surveys:delete'
+  | 'surveys:share'
+  | 'analytics:view'
+  | 'responses:view';
+
+export const rolePermissions: Record<Role, Permission[]> = {
+  admin: ['surveys:create', 'surveys:edit', 'surveys:delete', 'surveys:share', 'analytics:view', 'responses:view'],
+  editor: ['surveys:create', 'analytics:view'],
+  analyst: ['analytics:view', 'responses:view'],
+  respondent: [],
+};
+
+export const surveyOwnerPermissions: Permission[] = ['surveys:edit', 'surveys:delete', 'surveys:share'];
+
+export const collaboratorPermissions: Record<CollaboratorRole, Permission[]> = {
+  viewer: ['analytics:view'],
+  editor: ['surveys:edit', 'analytics:view'],
+  analyst: ['analytics:view', 'responses:view'],
+};